@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { tradingService, BotDecision } from '../services/tradingService';
+
+interface BotDecisionTimelineProps {
+  sessionId: string;
+}
+
+const formatValue = (value: number | null | undefined, digits = 2) =>
+  value === null || value === undefined ? '–' : Number(value).toFixed(digits);
+
+const formatReason = (reason: string) => reason.replace(/_/g, ' ').toLowerCase();
+
+// Newest-first list of a session's bot_decisions rows: the signal, or why no trade was opened,
+// with the indicator values the strategy saw.
+export function BotDecisionTimeline({ sessionId }: BotDecisionTimelineProps) {
+  const [decisions, setDecisions] = useState<BotDecision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDecisions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const { data, error: listError } = await tradingService.listBotDecisions(sessionId);
+    if (listError) setError(listError.message || 'Failed to load decisions.');
+    else setDecisions(data || []);
+    setLoading(false);
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadDecisions();
+  }, [loadDecisions]);
+
+  return (
+    <div className="mt-4 border-t border-gray-700 pt-3">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-sm font-semibold text-gray-300">Decision Timeline</h4>
+        <button onClick={loadDecisions} disabled={loading} className="text-gray-400 hover:text-white disabled:opacity-50" title="Refresh">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!loading && !error && decisions.length === 0 && <p className="text-xs text-gray-500">No decisions recorded yet.</p>}
+      <ol className="max-h-72 overflow-y-auto space-y-2">
+        {decisions.map(decision => (
+          <li key={decision.id} className="text-xs bg-gray-900/60 rounded p-2 border-l-2" style={{ borderColor: decision.executed ? '#68D391' : (decision.signal !== 'NONE' ? '#F7B538' : '#4A5568') }}>
+            <div className="flex justify-between">
+              <span className="font-mono text-gray-400">{new Date(decision.decided_at).toLocaleString()}</span>
+              <span className={decision.signal === 'BUY' ? 'text-green-400' : decision.signal === 'SELL' ? 'text-red-400' : 'text-gray-500'}>
+                {decision.signal}{decision.regime ? ` · ${decision.regime.replace(/_/g, ' ')}` : ''}
+              </span>
+            </div>
+            <div className="text-gray-300 mt-1">
+              {decision.executed
+                ? `Opened ${decision.lot_size} lots @ ${formatValue(decision.price, 4)}, SL ${formatValue(decision.stop_loss, 4)}, TP ${formatValue(decision.take_profit, 4)}`
+                : `Skipped: ${formatReason(decision.skip_reason || 'unknown')}${decision.message ? ` – ${decision.message}` : ''}`}
+            </div>
+            {Object.keys(decision.indicators || {}).length > 0 && (
+              <div className="text-gray-500 mt-1">
+                SMA {formatValue(decision.indicators.sma_short)}/{formatValue(decision.indicators.sma_long)}
+                {' · '}BB {formatValue(decision.indicators.bb_lower)}–{formatValue(decision.indicators.bb_upper)}
+                {' · '}RSI {formatValue(decision.indicators.rsi, 1)}
+                {' · '}ADX {formatValue(decision.indicators.adx, 1)} (+DI {formatValue(decision.indicators.plus_di, 1)} / -DI {formatValue(decision.indicators.minus_di, 1)})
+                {' · '}ATR {formatValue(decision.indicators.atr)}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { tradingService, PriceGapReport, PriceTimeframe } from '../services/tradingService';
+import {
+  importPriceFile,
+  BROKER_SERVER_TIME,
+  CsvColumnMapping,
+  DateOrder,
+  PriceFileFormat,
+  PriceImportProgress,
+  PriceImportSummary,
+  TickPriceSide,
+} from '../lib/priceImport';
+
+interface PriceDataImportProps {
+  symbol: string;
+  onImported: (report: PriceGapReport) => void;
+}
+
+const FORMATS: Array<{ value: PriceFileFormat; label: string }> = [
+  { value: 'METATRADER_CSV', label: 'MetaTrader 4/5 CSV export' },
+  { value: 'METATRADER_HST', label: 'MetaTrader 4 history (.hst)' },
+  { value: 'DUKASCOPY_TICKS', label: 'Dukascopy tick CSV' },
+  { value: 'CSV', label: 'Other CSV (map columns)' },
+];
+
+const TIMEFRAMES: PriceTimeframe[] = ['1m', '5m', '15m', '30m', '1h', '4h', '1d'];
+const POST_IMPORT_WINDOW_DAYS = 30; // Aggregation and gap checks run a month per call to stay inside the function timeout
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputStyle = "bg-gray-700 text-white p-2 rounded border border-gray-600 focus:border-yellow-500 focus:outline-none w-full";
+const labelStyle = "block text-sm font-medium text-gray-300 mb-1";
+
+// After the bars are stored: builds the higher timeframes from them and checks the imported range for
+// gaps, window by window. Each gap check starts at the previous window's last bar so gaps spanning a
+// window boundary are still found.
+async function buildAndCheckImportedRange(symbol: string, timeframe: PriceTimeframe, firstBar: string, lastBar: string): Promise<PriceGapReport> {
+  const merged: PriceGapReport = { symbol, timeframe, bars: 0, first_bar: null, last_bar: null, gaps: [], missing_gaps: 0, missing_bars: 0, market_closed_gaps: 0 };
+  const last = new Date(lastBar).getTime();
+  for (let start = Math.floor(new Date(firstBar).getTime() / DAY_MS) * DAY_MS; start <= last; start += POST_IMPORT_WINDOW_DAYS * DAY_MS) {
+    const endDate = new Date(Math.min(start + POST_IMPORT_WINDOW_DAYS * DAY_MS - 1, last)).toISOString();
+    if (timeframe !== '1d') {
+      const { error } = await tradingService.aggregatePriceData({ symbol, startDate: new Date(start).toISOString(), endDate, sourceTimeframe: timeframe });
+      if (error) throw error;
+    }
+    const overlapsPrevious = merged.last_bar !== null;
+    const { data: report, error } = await tradingService.detectPriceGaps({ symbol, timeframe, startDate: merged.last_bar ?? new Date(start).toISOString(), endDate });
+    if (error) throw error;
+    if (!report || report.bars === 0) continue;
+    merged.bars += report.bars - (overlapsPrevious ? 1 : 0);
+    merged.first_bar = merged.first_bar ?? report.first_bar;
+    merged.last_bar = report.last_bar;
+    merged.gaps.push(...report.gaps);
+    merged.missing_gaps += report.missing_gaps;
+    merged.missing_bars += report.missing_bars;
+    merged.market_closed_gaps += report.market_closed_gaps;
+  }
+  return merged;
+}
+
+// Upload form for history files on disk: bars go into price_data under `symbol`, then the gap
+// report for the imported range is handed to `onImported`.
+export function PriceDataImport({ symbol, onImported }: PriceDataImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<PriceFileFormat>('METATRADER_CSV');
+  const [timeframe, setTimeframe] = useState<PriceTimeframe>('1m');
+  const [timezone, setTimezone] = useState<string>(BROKER_SERVER_TIME);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('YMD');
+  const [priceSide, setPriceSide] = useState<TickPriceSide>('BID');
+  const [columns, setColumns] = useState<CsvColumnMapping>({ date: '1', time: '', open: '2', high: '3', low: '4', close: '5', volume: '6' });
+  const [importing, setImporting] = useState(false);
+  const [stage, setStage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<PriceImportProgress | null>(null);
+  const [result, setResult] = useState<{ summary: PriceImportSummary; stored: number; rejected: number; duplicates: number } | null>(null);
+
+  const importTimeframe: PriceTimeframe = format === 'DUKASCOPY_TICKS' ? '1m' : timeframe;
+
+  const handleFormatChange = (value: PriceFileFormat) => {
+    setFormat(value);
+    // Sensible defaults: MetaTrader exports are in broker server time, Dukascopy's 'Gmt time' in UTC
+    setTimezone(value === 'DUKASCOPY_TICKS' || value === 'CSV' ? 'UTC' : BROKER_SERVER_TIME);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    setResult(null);
+    setProgress(null);
+    const totals = { stored: 0, rejected: 0, duplicates: 0 };
+    try {
+      setStage('Importing');
+      const summary = await importPriceFile(
+        file,
+        { format, timeframe: importTimeframe, timezone, dateOrder, priceSide, columns },
+        async bars => {
+          const { data, error } = await tradingService.importPriceData({ symbol, timeframe: importTimeframe, bars });
+          if (error) throw error;
+          totals.stored += data?.stored ?? 0;
+          totals.rejected += data?.rejected ?? 0;
+          totals.duplicates += data?.duplicates ?? 0;
+        },
+        setProgress
+      );
+      setResult({ summary, ...totals });
+      if (!summary.firstBar || !summary.lastBar) {
+        toast.warning('No bars found in the file. Check the format and column settings.');
+        return;
+      }
+
+      setStage(importTimeframe === '1d' ? 'Checking for gaps' : 'Building higher timeframes and checking for gaps');
+      const report = await buildAndCheckImportedRange(symbol, importTimeframe, summary.firstBar, summary.lastBar);
+      onImported(report);
+      const message = `Imported ${totals.stored} ${importTimeframe} bars for ${symbol}` +
+        (summary.skipped + totals.rejected > 0 ? `; ${summary.skipped + totals.rejected} rows skipped` : '') + '.';
+      if (report.missing_gaps > 0) toast.warning(`${message} ${report.missing_bars} bars missing across ${report.missing_gaps} gaps.`);
+      else toast.success(message);
+    } catch (err: any) {
+      toast.error(`Import failed: ${err.message || err}`);
+      if (totals.stored > 0) toast.info(`${totals.stored} bars were stored before the failure; re-importing the file is safe.`);
+    } finally {
+      setImporting(false);
+      setStage(null);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-400 mb-4">
+        Loads history files into the price data used by backtests, as {symbol}. Re-importing overwrites bars with the same time.
+        Import 1m bars or ticks where you can: 5m–1d bars are built from them.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelStyle}>File: </label>
+          <input type="file" accept=".csv,.txt,.hst" onChange={e => setFile(e.target.files?.[0] ?? null)} className="text-sm text-gray-300" />
+        </div>
+        <div>
+          <label className={labelStyle}>Format: </label>
+          <select value={format} onChange={e => handleFormatChange(e.target.value as PriceFileFormat)} className={inputStyle}>
+            {FORMATS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelStyle}>Bar Timeframe: </label>
+          <select value={importTimeframe} onChange={e => setTimeframe(e.target.value as PriceTimeframe)} disabled={format === 'DUKASCOPY_TICKS'} className={inputStyle}>
+            {TIMEFRAMES.map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelStyle}>File Time Zone: </label>
+          <select value={[BROKER_SERVER_TIME, 'UTC'].includes(timezone) ? timezone : 'custom'} onChange={e => setTimezone(e.target.value === 'custom' ? 'Europe/London' : e.target.value)} className={inputStyle}>
+            <option value={BROKER_SERVER_TIME}>Broker server time (GMT+2/+3, New York close)</option>
+            <option value="UTC">UTC / GMT</option>
+            <option value="custom">Other (IANA zone or offset)</option>
+          </select>
+          {![BROKER_SERVER_TIME, 'UTC'].includes(timezone) && (
+            <input type="text" value={timezone} onChange={e => setTimezone(e.target.value)} placeholder="Europe/London or +02:00" className={inputStyle + " mt-2"} />
+          )}
+        </div>
+        {format === 'CSV' && (
+          <div>
+            <label className={labelStyle}>Date Order: </label>
+            <select value={dateOrder} onChange={e => setDateOrder(e.target.value as DateOrder)} className={inputStyle}>
+              <option value="YMD">Year-Month-Day</option>
+              <option value="DMY">Day-Month-Year</option>
+              <option value="MDY">Month-Day-Year</option>
+            </select>
+          </div>
+        )}
+        {format === 'DUKASCOPY_TICKS' && (
+          <div>
+            <label className={labelStyle}>Tick Price: </label>
+            <select value={priceSide} onChange={e => setPriceSide(e.target.value as TickPriceSide)} className={inputStyle}>
+              <option value="BID">Bid</option>
+              <option value="ASK">Ask</option>
+              <option value="MID">Mid</option>
+            </select>
+          </div>
+        )}
+      </div>
+      {format === 'CSV' && (
+        <div className="mt-4">
+          <p className="text-xs text-gray-400 mb-2">Columns: header names or column numbers (1 = first). Leave Time empty when the date column includes it.</p>
+          <div className="grid grid-cols-3 md:grid-cols-7 gap-2">
+            {(['date', 'time', 'open', 'high', 'low', 'close', 'volume'] as Array<keyof CsvColumnMapping>).map(key => (
+              <div key={key}>
+                <label className={labelStyle}>{key[0].toUpperCase() + key.slice(1)}: </label>
+                <input type="text" value={columns[key] ?? ''} onChange={e => setColumns(prev => ({ ...prev, [key]: e.target.value }))} className={inputStyle} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="mt-4 flex items-center gap-4">
+        <button onClick={handleImport} disabled={!file || !symbol || importing} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition-colors disabled:opacity-50">
+          {importing ? 'Importing...' : 'Import File'}
+        </button>
+        {importing && (
+          <span className="text-sm text-gray-300">
+            {stage}
+            {progress && stage === 'Importing' && `: ${(progress.bytesRead / 1048576).toFixed(1)} of ${(progress.totalBytes / 1048576).toFixed(1)} MB read, ${progress.bars} bars`}
+            ...
+          </span>
+        )}
+      </div>
+      {result && (
+        <div className="mt-3 text-sm text-gray-300">
+          <p>
+            {result.summary.rows} rows read, {result.stored} bars stored
+            {result.summary.firstBar && ` (${new Date(result.summary.firstBar).toLocaleString()} – ${new Date(result.summary.lastBar as string).toLocaleString()})`}.
+            {' '}{result.summary.skipped} unreadable rows, {result.rejected} bars with invalid prices, {result.duplicates} duplicate timestamps.
+          </p>
+          {result.summary.skippedExamples.length > 0 && (
+            <ul className="mt-2 text-xs font-mono text-yellow-300">
+              {result.summary.skippedExamples.map((example, index) => <li key={index}>{example}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
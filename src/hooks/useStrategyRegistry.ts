@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { tradingService, StrategyRegistry, StrategyDefinition, StrategyParams } from '../services/tradingService';
+
+// The registry only changes with a deploy, so one request per page load is enough
+let registryRequest: Promise<StrategyRegistry> | null = null;
+
+function loadStrategyRegistry(): Promise<StrategyRegistry> {
+  if (!registryRequest) {
+    registryRequest = tradingService.listStrategies().then(({ data, error }) => {
+      if (error || !data) {
+        registryRequest = null; // Let the next mount retry
+        throw error || new Error('No strategies returned from list_strategies_action');
+      }
+      return data;
+    });
+  }
+  return registryRequest;
+}
+
+// Default value of every parameter the strategy uses, including the common ATR parameters
+export function strategyParamDefaults(registry: StrategyRegistry, strategy?: StrategyDefinition): Partial<StrategyParams> {
+  return Object.fromEntries(
+    [...registry.commonParams, ...(strategy?.params || [])].map(param => [param.key, param.defaultValue])
+  ) as Partial<StrategyParams>;
+}
+
+export function useStrategyRegistry() {
+  const [registry, setRegistry] = useState<StrategyRegistry>({ commonParams: [], strategies: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStrategyRegistry()
+      .then(result => { if (!cancelled) setRegistry(result); })
+      .catch((err: any) => { if (!cancelled) setError(err.message || 'Failed to load strategies.'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  return { registry, loading, error };
+}
@@ -0,0 +1,351 @@
+import type { PriceImportBar, PriceTimeframe } from '../services/tradingService';
+
+// Reads OHLCV history files in the browser and hands the bars to import_price_data_action in
+// batches. Files are read a few MB at a time, so multi-year 1m exports and tick files never have to
+// fit in memory. Ticks are aggregated into 1m bars here; the engine builds 5m-1d from those.
+
+export type PriceFileFormat = 'CSV' | 'METATRADER_CSV' | 'METATRADER_HST' | 'DUKASCOPY_TICKS';
+export type DateOrder = 'YMD' | 'DMY' | 'MDY';
+export type TickPriceSide = 'BID' | 'ASK' | 'MID';
+
+// Header names (case-insensitive) or 1-based column numbers
+export interface CsvColumnMapping {
+  date: string;   // Date, date and time, or Unix seconds/milliseconds
+  time?: string;  // Separate time-of-day column
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume?: string;
+}
+
+export interface PriceImportOptions {
+  format: PriceFileFormat;
+  timeframe: PriceTimeframe;  // Of the bars in the file; ignored for ticks, which always become 1m bars
+  timezone: string;           // 'UTC', a fixed offset ('+02:00'), an IANA zone or BROKER_SERVER_TIME
+  dateOrder?: DateOrder;      // CSV only; MetaTrader files are YMD and Dukascopy DMY
+  columns?: CsvColumnMapping; // CSV only
+  priceSide?: TickPriceSide;  // Ticks only; BID by default, as MetaTrader charts are
+  batchSize?: number;
+}
+
+export interface PriceImportProgress {
+  bytesRead: number;
+  totalBytes: number;
+  bars: number;
+}
+
+export interface PriceImportSummary {
+  rows: number;               // Lines or HST records read, header excluded
+  bars: number;               // Bars passed to onBatch
+  skipped: number;            // Unparseable rows and out-of-order ticks
+  skippedExamples: string[];
+  firstBar: string | null;
+  lastBar: string | null;
+}
+
+// Most MetaTrader brokers run their server clock at GMT+2, GMT+3 while US DST is on, so the daily
+// candle opens at the 17:00 New York close.
+export const BROKER_SERVER_TIME = 'BROKER_SERVER_TIME';
+const BROKER_HOURS_AHEAD_OF_NEW_YORK = 7;
+
+const READ_CHUNK_BYTES = 4 * 1024 * 1024;
+const DEFAULT_BATCH_SIZE = 5000; // import_price_data_action's per-request cap
+const MAX_SKIPPED_EXAMPLES = 5;
+
+const TIMEFRAME_MINUTES: Record<PriceTimeframe, number> = {
+  '1m': 1, '5m': 5, '15m': 15, '30m': 30, '1h': 60, '4h': 240, '1d': 1440,
+};
+
+// MetaTrader 4 .hst: 148-byte header, then fixed-size records (version 400 before build 600, 401 since)
+const HST_HEADER_BYTES = 148;
+const HST_RECORD_BYTES: Record<number, number> = { 400: 44, 401: 60 };
+
+const EPOCH_TIMESTAMP = /^\d{9,13}$/;
+const FIXED_OFFSET = /^(?:UTC|GMT)?\s*([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+const TIMESTAMP_ZONE_SUFFIX = /(\d:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(?:GMT|UTC)?\s*(Z|[+-]\d{2}:?\d{2})$/i;
+
+// Wall-clock time in `timezone` (as if it were UTC) -> real UTC. Throws RangeError for an unknown zone.
+export function createWallClockConverter(timezone: string): (wallTime: number) => number {
+  const zone = timezone.trim();
+  if (!zone || /^(UTC|GMT|Z)$/i.test(zone)) return wallTime => wallTime;
+  const fixed = FIXED_OFFSET.exec(zone);
+  if (fixed) {
+    const offset = (fixed[1] === '-' ? -1 : 1) * (Number(fixed[2]) * 60 + Number(fixed[3] || 0)) * 60000;
+    return wallTime => wallTime - offset;
+  }
+  if (zone === BROKER_SERVER_TIME) {
+    const fromNewYork = createWallClockConverter('America/New_York');
+    return wallTime => fromNewYork(wallTime - BROKER_HOURS_AHEAD_OF_NEW_YORK * 3600000);
+  }
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  });
+  const offsetAt = (utc: number) => {
+    const parts = Object.fromEntries(formatter.formatToParts(new Date(utc)).map(part => [part.type, Number(part.value)]));
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - Math.floor(utc / 1000) * 1000;
+  };
+  // The offset at the wall time itself is off by the DST shift near a transition; one more pass fixes it
+  return wallTime => wallTime - offsetAt(wallTime - offsetAt(wallTime));
+}
+
+// UTC milliseconds, or NaN. Unix timestamps and times with their own offset ('... GMT+0200') ignore `toUtc`.
+function parseTimestamp(dateText: string, timeText: string | undefined, order: DateOrder, toUtc: (wallTime: number) => number): number {
+  const text = `${dateText} ${timeText ?? ''}`.trim();
+  if (EPOCH_TIMESTAMP.test(text)) return text.length <= 10 ? Number(text) * 1000 : Number(text);
+
+  const zone = TIMESTAMP_ZONE_SUFFIX.exec(text);
+  const numbers = (zone ? text.slice(0, zone.index + zone[1].length) : text).match(/\d+/g);
+  if (!numbers || numbers.length < 3) return NaN;
+  const [a, b, c, hour = '0', minute = '0', second = '0', fraction = '0'] = numbers;
+  const [yearText, month, day] = a.length === 4 || order === 'YMD' ? [a, b, c] : order === 'DMY' ? [c, b, a] : [c, a, b];
+  const year = yearText.length <= 2 ? 2000 + Number(yearText) : Number(yearText);
+  if (Number(month) < 1 || Number(month) > 12 || Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) return NaN;
+  const wallTime = Date.UTC(year, Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), Math.floor(Number(`0.${fraction}`) * 1000));
+  if (new Date(wallTime).getUTCDate() !== Number(day)) return NaN; // e.g. 31 April
+
+  if (!zone) return toUtc(wallTime);
+  if (zone[2].toUpperCase() === 'Z') return wallTime;
+  const [, sign, hours, minutes] = /([+-])(\d{2}):?(\d{2})/.exec(zone[2]) as RegExpExecArray;
+  return wallTime - (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes)) * 60000;
+}
+
+function detectDelimiter(line: string): string {
+  const counts = ['\t', ';', ','].map(delimiter => ({ delimiter, count: line.split(delimiter).length }));
+  return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+}
+
+function splitFields(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map(field => field.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+// With ';' as the delimiter, ',' is usually the decimal separator
+function parseNumber(text: string | undefined, delimiter: string): number {
+  if (text === undefined || text === '') return NaN;
+  return Number(delimiter === ';' ? text.replace(',', '.') : text);
+}
+
+function resolveColumn(reference: string | undefined, header: string[] | null): number | undefined {
+  if (!reference || !reference.trim()) return undefined;
+  if (/^\d+$/.test(reference.trim())) return Number(reference) - 1;
+  const index = header ? header.findIndex(name => name.toLowerCase() === reference.trim().toLowerCase()) : -1;
+  if (index < 0) throw new Error(`Column '${reference}' not found${header ? ' in the header row' : '; the file has no header row, so use column numbers'}.`);
+  return index;
+}
+
+// MetaTrader 5 exports have a <DATE>/<TIME>/... header; MetaTrader 4's History Center exports have
+// no header and are date,time,open,high,low,close,volume.
+function metaTraderColumns(header: string[] | null, fieldCount: number): CsvColumnMapping {
+  if (!header) {
+    return fieldCount === 6
+      ? { date: '1', open: '2', high: '3', low: '4', close: '5', volume: '6' }
+      : { date: '1', time: '2', open: '3', high: '4', low: '5', close: '6', volume: '7' };
+  }
+  const has = (name: string) => header.some(column => column.toUpperCase() === name);
+  return {
+    date: '<DATE>',
+    time: has('<TIME>') ? '<TIME>' : undefined,
+    open: '<OPEN>',
+    high: '<HIGH>',
+    low: '<LOW>',
+    close: '<CLOSE>',
+    volume: has('<TICKVOL>') ? '<TICKVOL>' : has('<VOL>') ? '<VOL>' : undefined, // Spot gold's real volume is 0
+  };
+}
+
+// Dukascopy: 'Gmt time,Ask,Bid,AskVolume,BidVolume' (or 'Local time' with a GMT offset on each row)
+function dukascopyColumns(header: string[] | null) {
+  const find = (matches: (name: string) => boolean, fallback: number) => {
+    const index = header ? header.findIndex(name => matches(name.toLowerCase())) : -1;
+    return index >= 0 ? index : fallback;
+  };
+  return {
+    time: find(name => name.includes('time'), 0),
+    ask: find(name => name === 'ask', 1),
+    bid: find(name => name === 'bid', 2),
+    askVolume: find(name => name.startsWith('ask') && name.includes('vol'), 3),
+    bidVolume: find(name => name.startsWith('bid') && name.includes('vol'), 4),
+  };
+}
+
+class BarBatcher {
+  private pending: PriceImportBar[] = [];
+  readonly summary: PriceImportSummary = { rows: 0, bars: 0, skipped: 0, skippedExamples: [], firstBar: null, lastBar: null };
+
+  constructor(private batchSize: number, private onBatch: (bars: PriceImportBar[]) => Promise<void>) {}
+
+  add(time: number, open: number, high: number, low: number, close: number, volume: number) {
+    const iso = new Date(time).toISOString();
+    this.pending.push({ time: iso, open, high, low, close, volume: Number.isFinite(volume) ? volume : 0 });
+    this.summary.bars++;
+    if (!this.summary.firstBar || iso < this.summary.firstBar) this.summary.firstBar = iso;
+    if (!this.summary.lastBar || iso > this.summary.lastBar) this.summary.lastBar = iso;
+  }
+
+  skip(row: string) {
+    this.summary.skipped++;
+    if (this.summary.skippedExamples.length < MAX_SKIPPED_EXAMPLES) this.summary.skippedExamples.push(row.slice(0, 120));
+  }
+
+  // Sends full batches, or everything when `all`
+  async drain(all: boolean) {
+    while (this.pending.length >= this.batchSize || (all && this.pending.length > 0)) {
+      await this.onBatch(this.pending.splice(0, this.batchSize));
+    }
+  }
+}
+
+// Calls onLine for every line of a text file, draining after each chunk so batches upload as it's read.
+async function readLines(
+  file: File,
+  batcher: BarBatcher,
+  onLine: (line: string) => void,
+  onProgress?: (progress: PriceImportProgress) => void
+) {
+  const decoder = new TextDecoder();
+  let carry = '';
+  for (let offset = 0; offset < file.size; offset += READ_CHUNK_BYTES) {
+    const lines = (carry + decoder.decode(await file.slice(offset, offset + READ_CHUNK_BYTES).arrayBuffer(), { stream: true })).split(/\r?\n/);
+    carry = lines.pop() ?? '';
+    lines.forEach(onLine);
+    await batcher.drain(false);
+    onProgress?.({ bytesRead: Math.min(offset + READ_CHUNK_BYTES, file.size), totalBytes: file.size, bars: batcher.summary.bars });
+  }
+  carry += decoder.decode();
+  if (carry) onLine(carry);
+}
+
+async function readBarCsv(file: File, options: PriceImportOptions, batcher: BarBatcher, toUtc: (wallTime: number) => number, onProgress?: (progress: PriceImportProgress) => void) {
+  let delimiter = '';
+  let columns: Record<keyof CsvColumnMapping, number | undefined> | null = null;
+  const dateOrder = options.format === 'METATRADER_CSV' ? 'YMD' : options.dateOrder ?? 'YMD';
+
+  await readLines(file, batcher, line => {
+    if (!line.trim()) return;
+    if (!columns) {
+      delimiter = detectDelimiter(line);
+      const fields = splitFields(line, delimiter);
+      const header = fields.every(field => Number.isNaN(parseNumber(field, delimiter))) ? fields : null;
+      const mapping = options.format === 'METATRADER_CSV' ? metaTraderColumns(header, fields.length) : options.columns;
+      if (!mapping) throw new Error('Map the date, open, high, low and close columns first.');
+      columns = {
+        date: resolveColumn(mapping.date, header),
+        time: resolveColumn(mapping.time, header),
+        open: resolveColumn(mapping.open, header),
+        high: resolveColumn(mapping.high, header),
+        low: resolveColumn(mapping.low, header),
+        close: resolveColumn(mapping.close, header),
+        volume: resolveColumn(mapping.volume, header),
+      };
+      if ([columns.date, columns.open, columns.high, columns.low, columns.close].includes(undefined)) {
+        throw new Error('The date, open, high, low and close columns are required.');
+      }
+      if (header) return;
+    }
+    batcher.summary.rows++;
+    const fields = splitFields(line, delimiter);
+    const field = (index: number | undefined) => index === undefined ? undefined : fields[index];
+    const time = parseTimestamp(field(columns.date) ?? '', field(columns.time), dateOrder, toUtc);
+    const prices = [columns.open, columns.high, columns.low, columns.close].map(index => parseNumber(field(index), delimiter));
+    if (Number.isNaN(time) || prices.some(price => !Number.isFinite(price))) {
+      batcher.skip(line);
+      return;
+    }
+    const [open, high, low, close] = prices;
+    batcher.add(time, open, high, low, close, parseNumber(field(columns.volume), delimiter));
+  }, onProgress);
+}
+
+async function readDukascopyTicks(file: File, options: PriceImportOptions, batcher: BarBatcher, toUtc: (wallTime: number) => number, onProgress?: (progress: PriceImportProgress) => void) {
+  let delimiter = '';
+  let columns: ReturnType<typeof dukascopyColumns> | null = null;
+  let bar = null as { minute: number; open: number; high: number; low: number; close: number; volume: number } | null;
+  const side = options.priceSide ?? 'BID';
+
+  await readLines(file, batcher, line => {
+    if (!line.trim()) return;
+    if (!columns) {
+      delimiter = detectDelimiter(line);
+      const fields = splitFields(line, delimiter);
+      const header = fields.every(field => Number.isNaN(parseNumber(field, delimiter))) ? fields : null;
+      columns = dukascopyColumns(header);
+      if (header) return;
+    }
+    batcher.summary.rows++;
+    const fields = splitFields(line, delimiter);
+    const time = parseTimestamp(fields[columns.time] ?? '', undefined, options.dateOrder ?? 'DMY', toUtc);
+    const ask = parseNumber(fields[columns.ask], delimiter);
+    const bid = parseNumber(fields[columns.bid], delimiter);
+    const askVolume = parseNumber(fields[columns.askVolume], delimiter) || 0;
+    const bidVolume = parseNumber(fields[columns.bidVolume], delimiter) || 0;
+    const price = side === 'BID' ? bid : side === 'ASK' ? ask : (ask + bid) / 2;
+    const volume = side === 'BID' ? bidVolume : side === 'ASK' ? askVolume : (askVolume + bidVolume) / 2;
+    const minute = Math.floor(time / 60000) * 60000;
+    // Ticks must arrive in time order; one from an already closed minute can't be added any more
+    if (Number.isNaN(time) || !Number.isFinite(price) || price <= 0 || (bar && minute < bar.minute)) {
+      batcher.skip(line);
+      return;
+    }
+    if (bar && minute === bar.minute) {
+      bar.high = Math.max(bar.high, price);
+      bar.low = Math.min(bar.low, price);
+      bar.close = price;
+      bar.volume += volume;
+      return;
+    }
+    if (bar) batcher.add(bar.minute, bar.open, bar.high, bar.low, bar.close, bar.volume);
+    bar = { minute, open: price, high: price, low: price, close: price, volume };
+  }, onProgress);
+
+  if (bar) batcher.add(bar.minute, bar.open, bar.high, bar.low, bar.close, bar.volume);
+}
+
+async function readMetaTraderHst(file: File, options: PriceImportOptions, batcher: BarBatcher, toUtc: (wallTime: number) => number, onProgress?: (progress: PriceImportProgress) => void) {
+  const header = new DataView(await file.slice(0, HST_HEADER_BYTES).arrayBuffer());
+  if (header.byteLength < HST_HEADER_BYTES) throw new Error('Not a MetaTrader history (.hst) file: the header is incomplete.');
+  const version = header.getInt32(0, true);
+  const recordBytes = HST_RECORD_BYTES[version];
+  if (!recordBytes) throw new Error(`Unsupported .hst version ${version}; expected 400 or 401.`);
+  const periodMinutes = header.getInt32(80, true);
+  if (periodMinutes !== TIMEFRAME_MINUTES[options.timeframe]) {
+    throw new Error(`The file holds ${periodMinutes}-minute bars but ${options.timeframe} is selected.`);
+  }
+
+  const chunkBytes = Math.floor(READ_CHUNK_BYTES / recordBytes) * recordBytes;
+  for (let offset = HST_HEADER_BYTES; offset + recordBytes <= file.size; offset += chunkBytes) {
+    const view = new DataView(await file.slice(offset, offset + chunkBytes).arrayBuffer());
+    for (let at = 0; at + recordBytes <= view.byteLength; at += recordBytes) {
+      batcher.summary.rows++;
+      // 400: int32 time, open, low, high, close, volume; 401: int64 time, open, high, low, close, int64 tick volume, ...
+      const seconds = version === 400 ? view.getInt32(at, true) : Number(view.getBigInt64(at, true));
+      const priceAt = (index: number) => view.getFloat64(at + (version === 400 ? 4 : 8) + index * 8, true);
+      const [open, high, low, close] = version === 400 ? [priceAt(0), priceAt(2), priceAt(1), priceAt(3)] : [priceAt(0), priceAt(1), priceAt(2), priceAt(3)];
+      const volume = version === 400 ? priceAt(4) : Number(view.getBigInt64(at + 40, true));
+      if ([open, high, low, close].some(price => !Number.isFinite(price))) {
+        batcher.skip(`record ${batcher.summary.rows}`);
+        continue;
+      }
+      batcher.add(toUtc(seconds * 1000), open, high, low, close, volume);
+    }
+    await batcher.drain(false);
+    onProgress?.({ bytesRead: Math.min(offset + chunkBytes, file.size), totalBytes: file.size, bars: batcher.summary.bars });
+  }
+}
+
+// Parses `file` and awaits onBatch for every `batchSize` bars, in file order. Throws for settings
+// that don't fit the file (unknown time zone, missing columns, wrong .hst period); rows that can't
+// be parsed are only counted. OHLC consistency is checked by the engine when the batch is stored.
+export async function importPriceFile(
+  file: File,
+  options: PriceImportOptions,
+  onBatch: (bars: PriceImportBar[]) => Promise<void>,
+  onProgress?: (progress: PriceImportProgress) => void
+): Promise<PriceImportSummary> {
+  const toUtc = createWallClockConverter(options.timezone);
+  const batcher = new BarBatcher(options.batchSize ?? DEFAULT_BATCH_SIZE, onBatch);
+  if (options.format === 'METATRADER_HST') await readMetaTraderHst(file, options, batcher, toUtc, onProgress);
+  else if (options.format === 'DUKASCOPY_TICKS') await readDukascopyTicks(file, options, batcher, toUtc, onProgress);
+  else await readBarCsv(file, options, batcher, toUtc, onProgress);
+  await batcher.drain(true);
+  return batcher.summary;
+}
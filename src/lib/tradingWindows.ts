@@ -0,0 +1,29 @@
+import type { TradingWindow } from '../services/tradingService';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const CLOCK_TIME = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+function parseDay(name: string): number {
+  return DAY_NAMES.findIndex(day => day.toLowerCase() === name.slice(0, 3).toLowerCase());
+}
+
+// "Mon-Fri 07:00-16:00; Sun 22:00-06:00" -> trading windows; null when any part is malformed.
+// A day range may wrap (Fri-Mon), and an end time earlier than the start runs past midnight.
+export function parseTradingWindows(text: string): TradingWindow[] | null {
+  const windows: TradingWindow[] = [];
+  for (const part of text.split(';').map(p => p.trim()).filter(Boolean)) {
+    const match = /^([a-z]{3})(?:\s*-\s*([a-z]{3}))?\s+(\S+)\s*-\s*(\S+)$/i.exec(part);
+    if (!match) return null;
+    const [, fromDay, toDay = fromDay, start, end] = match;
+    const from = parseDay(fromDay);
+    const to = parseDay(toDay);
+    if (from < 0 || to < 0 || !CLOCK_TIME.test(start) || !CLOCK_TIME.test(end)) return null;
+    const days: number[] = [];
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.push(day);
+      if (day === to) break;
+    }
+    windows.push({ days, start, end });
+  }
+  return windows;
+}
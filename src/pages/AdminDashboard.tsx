@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { tradingService } from '../services/tradingService';
+import { tradingService, MarketDataStatus } from '../services/tradingService';
 import { useAuth } from '../hooks/useAuth'; // To ensure only authenticated users see it (further role check is on backend)
-import { ShieldCheck, Users, AlertTriangle, Loader2, Settings2 } from 'lucide-react';
+import { ShieldCheck, Users, AlertTriangle, Loader2, Settings2, Activity } from 'lucide-react';
 
 interface EnvVarStatus {
   name: string;
@@ -39,6 +39,7 @@ export function AdminDashboard() {
   const { user, userRole }
     = useAuth();
   const [envVarStatuses, setEnvVarStatuses] = useState<EnvVarStatus[]>([]);
+  const [marketDataStatus, setMarketDataStatus] = useState<MarketDataStatus | null>(null);
   const [users, setUsers] = useState<UserOverview[]>([]);
   const [systemLogs, setSystemLogs] = useState<SystemLog[]>([]);
   const [totalLogs, setTotalLogs] = useState(0);
@@ -89,6 +90,12 @@ export function AdminDashboard() {
       }
     };
 
+    const fetchMarketDataStatus = async () => {
+      const { data, error } = await tradingService.getMarketDataStatus();
+      if (error) console.error("AdminDashboard fetchMarketDataStatus error:", error);
+      setMarketDataStatus(data);
+    };
+
     const fetchUsersData = async () => {
       setIsLoadingUsers(true);
       setErrorUsers(null);
@@ -111,6 +118,7 @@ export function AdminDashboard() {
 
     if(user && userRole === 'admin') { // Ensure user and role are loaded before fetching
         fetchEnvData();
+        fetchMarketDataStatus();
         fetchUsersData();
         fetchSystemLogs(); // Call new function
     }
@@ -199,6 +207,35 @@ export function AdminDashboard() {
          {!isLoadingEnv && !errorEnv && envVarStatuses.length === 0 && <p className="text-gray-500">No environment variable statuses to display.</p>}
       </div>
 
+      {/* Market Data Providers */}
+      {marketDataStatus && (
+        <div className="mb-10 bg-gray-800/70 backdrop-blur-md border border-gray-700 rounded-xl p-6 shadow-xl">
+          <h2 className="text-2xl font-semibold mb-4 flex items-center">
+            <Activity className="w-7 h-7 mr-3 text-green-400" />
+            Market Data Providers
+          </h2>
+          <p className="text-sm text-gray-400 mb-3">Tried in this order; a benched source is only used when the others fail too. Health is per edge function worker.</p>
+          <ul className="space-y-2">
+            {marketDataStatus.providers.map(source => {
+              const health = marketDataStatus.health[source];
+              return (
+                <li key={source} className="p-2 bg-gray-700/50 rounded text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-gray-300">{source}</span>
+                    <span className={`px-3 py-0.5 text-xs font-semibold rounded-full ${
+                      health?.benched_until ? 'bg-red-500/20 text-red-300' : health?.consecutive_failures ? 'bg-yellow-500/20 text-yellow-300' : 'bg-green-500/20 text-green-300'
+                    }`}>
+                      {health?.benched_until ? `BENCHED until ${new Date(health.benched_until).toLocaleTimeString()}` : health?.consecutive_failures ? `${health.consecutive_failures} FAILURES` : 'OK'}
+                    </span>
+                  </div>
+                  {health?.last_error && <p className="text-xs text-gray-400 mt-1">Last error: {health.last_error}</p>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Users Overview */}
       <div className="bg-gray-800/70 backdrop-blur-md border border-gray-700 rounded-xl p-6 shadow-xl">
         <h2 className="text-2xl font-semibold mb-4 flex items-center">
@@ -1,8 +1,12 @@
 // src/pages/BacktestingPage.tsx
 import React, { useState, useEffect } from 'react';
-import { tradingService, StrategyParams } from '../services/tradingService';
+import { tradingService, StrategyParams, StrategyParamDefinition, NumericStrategyParamKey, StrategySelectionMode, OptimizationObjective, OptimizationParameterRange, IntrabarResolutionMode, TradingCostModel, PriceGapReport } from '../services/tradingService';
 import { useAuth } from '../hooks/useAuth';
+import { useStrategyRegistry } from '../hooks/useStrategyRegistry';
+import { parseTradingWindows } from '../lib/tradingWindows';
+import { PriceDataImport } from '../components/PriceDataImport';
 import { toast } from 'sonner'; // Import toast
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
 // Define interface for the data structure this page will manage
 interface UIPerBacktestParams {
@@ -11,14 +15,37 @@ interface UIPerBacktestParams {
   timeframe: string;
   startDate: string;
   endDate: string;
-  strategySelectionMode: 'ADAPTIVE' | 'SMA_ONLY' | 'MEAN_REVERSION_ONLY' | 'BREAKOUT_ONLY';
+  strategySelectionMode: StrategySelectionMode;
   strategyParams: Partial<StrategyParams>; // Use the imported type, allow partial for form state
   riskSettings: {
     riskLevel: 'conservative' | 'medium' | 'risky';
     maxLotSize?: number; // This will likely be determined by riskLevel on backend
+    maxDailyLoss?: number;   // Overrides the risk level default; 0 disables
+    maxDailyTrades?: number; // Overrides the risk level default; 0 disables
   };
   commissionPerLot?: number; // New
   slippagePoints?: number;   // New
+  costModel: Partial<TradingCostModel>; // Spread and swap; commission/slippage use the fields above
+  initialBalance?: number;   // Starting balance for the equity simulation
+  intrabarTimeframe?: string; // '' = no lower-timeframe replay
+  intrabarResolution?: IntrabarResolutionMode;
+}
+
+interface PercentileBands { p5: number; p50: number; p95: number }
+
+// Result of run_monte_carlo_action
+interface MonteCarloResult {
+  iterations: number;
+  method: 'shuffle' | 'bootstrap';
+  slippage_points: number;
+  ruin_threshold_percent: number;
+  trade_count: number;
+  initial_balance: number;
+  final_equity: PercentileBands;
+  max_drawdown_percent: PercentileBands;
+  risk_of_ruin_percent: number;
+  probability_of_profit_percent: number;
+  equity_bands: Array<{ trade: number } & PercentileBands>;
 }
 
 // Interface for the report structure returned by the backend
@@ -33,6 +60,60 @@ interface BacktestReport {
   winning_trades: number;
   losing_trades: number;
   win_rate: number;
+  initial_balance?: number;
+  final_balance?: number;
+  equity_curve?: Array<{ time: string; balance: number; equity: number }>;
+  halt_events?: Array<{ time: string; reason: string; message: string; resumesAt?: string }>;
+  // Risk-adjusted metrics (null when not computable, e.g. profit factor with no losses)
+  max_drawdown?: number | null;
+  max_drawdown_percent?: number | null;
+  sharpe_ratio?: number | null;
+  sortino_ratio?: number | null;
+  profit_factor?: number | null;
+  expectancy?: number | null;
+  average_win?: number | null;
+  average_loss?: number | null;
+  max_consecutive_wins?: number | null;
+  max_consecutive_losses?: number | null;
+  average_holding_minutes?: number | null;
+  exposure_percent?: number | null;
+  cagr_percent?: number | null;
+  optimization_id?: string | null;
+  optimization_params?: Partial<StrategyParams> | null; // Parameter values tested by an optimizer candidate
+  optimization_rank?: number | null;
+  // Set on walk-forward reports only
+  walk_forward_windows?: Array<{
+    window: number;
+    in_sample_start: string;
+    in_sample_end: string;
+    out_of_sample_start: string;
+    out_of_sample_end: string;
+    best_params: Partial<StrategyParams> | null;
+    in_sample_objective: number | null;
+    in_sample_return_percent: number | null;
+    out_of_sample_profit_loss: number;
+    out_of_sample_return_percent: number;
+    out_of_sample_trades: number;
+    efficiency: number | null;
+  }> | null;
+  walk_forward_efficiency?: number | null;
+  cost_totals?: { spread: number; commission: number; swap: number; slippage: number; total: number } | null;
+  intrabar_resolution?: {
+    mode: IntrabarResolutionMode;
+    ambiguous_candles: number;
+    resolved_by_lower_timeframe: number;
+    resolved_by_fallback: number;
+  } | null;
+  // Keyed by the regime ADAPTIVE classified; empty for other strategies
+  regime_breakdown?: Record<string, {
+    decisions: number;
+    trades: number;
+    winning_trades: number;
+    losing_trades: number;
+    profit_loss: number;
+  }> | null;
+  entry_blackout_skips?: Record<string, number> | null; // Entry signals skipped per time filter reason
+  monte_carlo?: MonteCarloResult | null; // Latest run_monte_carlo_action result
   created_at: string;
   strategy_selection_mode?: string; // Added
   strategy_params?: StrategyParams;  // Added
@@ -47,35 +128,118 @@ interface BacktestReport {
     stopLossPrice: number;
     takeProfitPrice?: number | null;
     profitOrLoss?: number;
+    grossProfitOrLoss?: number;
+    costs?: { spread: number; commission: number; swap: number; slippage: number; total: number; swapNights: number };
     closeReason?: string;
+    regime?: string; // Regime at entry (ADAPTIVE only)
   }>;
 }
 
+// Result of run_optimization_action / get_optimization_action
+interface OptimizationResult {
+  id: string;
+  objective: OptimizationObjective;
+  status: 'running' | 'completed' | 'failed';
+  total_combinations: number;
+  completed_combinations: number;
+  best_report_id?: string | null;
+  best_params?: Partial<StrategyParams> | null;
+  reports: BacktestReport[];
+}
+
+// Parameters offered in the optimizer form, in display order
+const OPTIMIZER_PARAMS: Array<{ key: NumericStrategyParamKey; label: string }> = [
+  { key: 'smaShortPeriod', label: 'SMA Short' },
+  { key: 'smaLongPeriod', label: 'SMA Long' },
+  { key: 'bbStdDevMult', label: 'BB StdDev Mult' },
+  { key: 'rsiOversold', label: 'RSI Oversold' },
+  { key: 'rsiOverbought', label: 'RSI Overbought' },
+  { key: 'breakoutLookbackPeriod', label: 'Breakout Lookback' },
+  { key: 'adxTrendMinLevel', label: 'ADX Min Trend Level' },
+  { key: 'atrMultiplierSL', label: 'ATR SL Multiplier' },
+  { key: 'atrMultiplierTP', label: 'ATR TP Multiplier' },
+];
+
+const OPTIMIZATION_OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  net_profit: 'Net Profit',
+  sharpe_ratio: 'Sharpe Ratio',
+  sortino_ratio: 'Sortino Ratio',
+  profit_factor: 'Profit Factor',
+  expectancy: 'Expectancy',
+  win_rate: 'Win Rate',
+  cagr_percent: 'CAGR',
+};
+
+// Sortable columns of the optimization results table
+const OPTIMIZATION_COLUMNS: Array<{ key: keyof BacktestReport; label: string; suffix?: string }> = [
+  { key: 'optimization_rank', label: 'Rank' },
+  { key: 'total_profit_loss', label: 'P/L' },
+  { key: 'win_rate', label: 'Win Rate', suffix: '%' },
+  { key: 'total_trades', label: 'Trades' },
+  { key: 'sharpe_ratio', label: 'Sharpe' },
+  { key: 'profit_factor', label: 'Profit Factor' },
+  { key: 'max_drawdown_percent', label: 'Max DD', suffix: '%' },
+];
+
+// Accepts "10, 20, 30" (list) or "10:30:5" (min:max:step). Returns null for blank or invalid input.
+const parseOptimizerRange = (input: string): OptimizationParameterRange | null => {
+  const text = input.trim();
+  if (!text) return null;
+  if (text.includes(':')) {
+    const [min, max, step] = text.split(':').map(v => parseFloat(v));
+    return [min, max, step].every(Number.isFinite) ? { min, max, step } : null;
+  }
+  const values = text.split(',').map(v => parseFloat(v)).filter(Number.isFinite);
+  return values.length > 0 ? values : null;
+};
+
+const formatMetric = (value: number | null | undefined, suffix = '', decimals = 2): string =>
+  value === null || value === undefined ? 'N/A' : `${Number(value).toFixed(decimals)}${suffix}`;
+
+const formatHoldingTime = (minutes: number | null | undefined): string => {
+  if (minutes === null || minutes === undefined) return 'N/A';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 60 * 24) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / (60 * 24)).toFixed(1)}d`;
+};
+
 const BacktestingPage: React.FC = () => {
   const { user } = useAuth();
   const [params, setParams] = useState<UIPerBacktestParams>({
     userId: undefined,
     symbol: 'XAUUSD',
-    timeframe: '15min',
+    timeframe: '15m',
     startDate: new Date(new Date().setFullYear(new Date().getFullYear() - 1)).toISOString().split('T')[0],
     endDate: new Date().toISOString().split('T')[0],
     strategySelectionMode: 'ADAPTIVE',
-    strategyParams: {
-      smaShortPeriod: 20, smaLongPeriod: 50,
-      bbPeriod: 20, bbStdDevMult: 2,
-      rsiPeriod: 14, rsiOversold: 30, rsiOverbought: 70,
-      adxPeriod: 14, adxTrendMinLevel: 25, adxRangeThreshold: 20, adxTrendThreshold: 25,
-      atrPeriod: 14, atrMultiplierSL: 1.5, atrMultiplierTP: 3.0,
-      breakoutLookbackPeriod: 50, atrSpikeMultiplier: 1.5,
+    strategyParams: { // Strategy parameters left unset take the registry defaults on the server
+      trailingStopAtrMultiplier: 0, breakevenTriggerAtr: 0, partialCloseTargetAtr: 0, partialClosePercent: 0, maxTradeDurationMinutes: 0,
+      htfConfirmation: 'NONE', htfTimeframe: '1h', htfSmaPeriod: 20, htfAdxPeriod: 14, htfAdxThreshold: 25,
+      tradingTimezone: 'UTC', tradingWindows: [], fridayCutoffTime: '', rolloverBlackoutMinutes: 0, newsBlackout: false,
     },
     riskSettings: { riskLevel: 'conservative' },
     commissionPerLot: 0, // Default commission
     slippagePoints: 0,   // Default slippage
+    costModel: { spreadPoints: 0, swapLongPerLot: 0, swapShortPerLot: 0 },
+    initialBalance: 10000,
+    intrabarTimeframe: '',
+    intrabarResolution: 'pessimistic',
   });
   const [loading, setLoading] = useState<boolean>(false);
   const [currentReport, setCurrentReport] = useState<BacktestReport | null>(null);
   const [pastReports, setPastReports] = useState<BacktestReport[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [gapReport, setGapReport] = useState<PriceGapReport | null>(null);
+  const [tradingWindowsText, setTradingWindowsText] = useState<string>(''); // Parsed into strategyParams.tradingWindows
+  const tradingWindowsInvalid = parseTradingWindows(tradingWindowsText) === null;
+  const [optimizerRanges, setOptimizerRanges] = useState<Partial<Record<keyof StrategyParams, string>>>({});
+  const [optimizationObjective, setOptimizationObjective] = useState<OptimizationObjective>('net_profit');
+  const [optimization, setOptimization] = useState<OptimizationResult | null>(null);
+  const [walkForwardDays, setWalkForwardDays] = useState<{ inSampleDays: number; outOfSampleDays: number }>({ inSampleDays: 90, outOfSampleDays: 30 });
+  const [monteCarloSettings, setMonteCarloSettings] = useState<{ iterations: number; method: 'shuffle' | 'bootstrap'; slippagePoints: number; ruinThresholdPercent: number }>({
+    iterations: 1000, method: 'shuffle', slippagePoints: 0, ruinThresholdPercent: 50,
+  });
+  const [optimizationSort, setOptimizationSort] = useState<{ key: keyof BacktestReport; ascending: boolean }>({ key: 'optimization_rank', ascending: true });
 
   useEffect(() => {
     if (user?.id) {
@@ -100,14 +264,16 @@ const BacktestingPage: React.FC = () => {
         const historicalDataParams = {
             symbol: params.symbol || 'XAUUSD',
             fromCurrency: 'XAU', toCurrency: 'USD',
-            interval: params.timeframe || '15min',
+            interval: params.timeframe || '15m',
             outputsize: 'full'
         };
         const response = await tradingService.fetchHistoricalData(historicalDataParams);
         if (response.error) throw response.error;
 
         const message = response.data?.message || (response.data?.success ? 'Successfully fetched/updated historical data.' : 'Historical data operation completed, but status unclear or no new data.');
-        if (response.data?.success || response.data?.inserted > 0) {
+        if (response.data?.missing_gaps > 0) {
+            toast.warning(message);
+        } else if (response.data?.success || response.data?.inserted > 0) {
             toast.success(message);
         } else {
             toast.info(message); // Use info for neutral messages
@@ -120,11 +286,42 @@ const BacktestingPage: React.FC = () => {
     finally { setLoading(false); }
   };
 
+  const handleCheckDataGaps = async () => {
+    setLoading(true); setError(null);
+    const { data, error: gapError } = await tradingService.detectPriceGaps({
+      symbol: params.symbol, timeframe: params.timeframe, startDate: params.startDate, endDate: params.endDate,
+    });
+    if (gapError) {
+      setError(gapError.message || 'Failed to check data gaps');
+    } else {
+      setGapReport(data);
+    }
+    setLoading(false);
+  };
+
+  const handleAggregatePriceData = async () => {
+    setLoading(true); setError(null);
+    const { data, error: aggregateError } = await tradingService.aggregatePriceData({
+      symbol: params.symbol, startDate: params.startDate, endDate: params.endDate, sourceTimeframe: '1m',
+    });
+    if (aggregateError) {
+      toast.error(`Error building bars: ${aggregateError.message}`);
+    } else {
+      const built = Object.entries(data?.built || {}).map(([timeframe, count]) => `${count} ${timeframe}`).join(', ');
+      toast.success(built ? `Built ${built} bars from 1m data.` : 'No 1m bars in the selected period.');
+    }
+    setLoading(false);
+  };
+
   const handleRunBacktest = async () => {
     if (!params.startDate || !params.endDate || !params.strategyParams) {
       setError("Start date, end date, and strategy parameters are required.");
       return;
     }
+    if (tradingWindowsInvalid) {
+      setError('Invalid trading windows. Use e.g. "Mon-Fri 07:00-16:00; Sun 22:00-06:00".');
+      return;
+    }
     setLoading(true); setError(null); setCurrentReport(null);
     try {
       // Construct the params for the service call carefully
@@ -138,10 +335,16 @@ const BacktestingPage: React.FC = () => {
         strategyParams: params.strategyParams as StrategyParams, // Ensure all defaults are covered if not in UI
         riskSettings: {
             riskLevel: params.riskSettings.riskLevel,
-            ...(params.riskSettings.maxLotSize && { maxLotSize: params.riskSettings.maxLotSize })
+            ...(params.riskSettings.maxLotSize && { maxLotSize: params.riskSettings.maxLotSize }),
+            ...(params.riskSettings.maxDailyLoss !== undefined && { maxDailyLoss: params.riskSettings.maxDailyLoss }),
+            ...(params.riskSettings.maxDailyTrades !== undefined && { maxDailyTrades: params.riskSettings.maxDailyTrades })
         },
         commissionPerLot: params.commissionPerLot, // Add commission
-        slippagePoints: params.slippagePoints     // Add slippage
+        slippagePoints: params.slippagePoints,    // Add slippage
+        costModel: params.costModel,
+        initialBalance: params.initialBalance,
+        intrabarTimeframe: params.intrabarTimeframe || undefined,
+        intrabarResolution: params.intrabarResolution
       };
       const response = await tradingService.runBacktest(runParamsPayload);
       if (response.error) throw response.error;
@@ -151,6 +354,110 @@ const BacktestingPage: React.FC = () => {
     finally { setLoading(false); }
   };
 
+  // Optimizer form -> request body shared by the optimization and walk-forward actions; null when invalid
+  const buildOptimizerPayload = () => {
+    if (tradingWindowsInvalid) {
+      setError('Invalid trading windows. Use e.g. "Mon-Fri 07:00-16:00; Sun 22:00-06:00".');
+      return null;
+    }
+    const parameterRanges: Partial<Record<keyof StrategyParams, OptimizationParameterRange>> = {};
+    for (const { key, label } of OPTIMIZER_PARAMS) {
+      const input = optimizerRanges[key];
+      if (!input?.trim()) continue;
+      const range = parseOptimizerRange(input);
+      if (!range) {
+        setError(`Invalid range for ${label}. Use "10, 20, 30" or "min:max:step".`);
+        return null;
+      }
+      parameterRanges[key] = range;
+    }
+    if (Object.keys(parameterRanges).length === 0) {
+      setError("Enter a range for at least one parameter to optimize.");
+      return null;
+    }
+    return {
+      userId: user?.id,
+      symbol: params.symbol,
+      timeframe: params.timeframe,
+      startDate: params.startDate,
+      endDate: params.endDate,
+      strategySelectionMode: params.strategySelectionMode,
+      strategyParams: params.strategyParams as StrategyParams,
+      riskSettings: params.riskSettings,
+      commissionPerLot: params.commissionPerLot,
+      slippagePoints: params.slippagePoints,
+      costModel: params.costModel,
+      initialBalance: params.initialBalance,
+      intrabarTimeframe: params.intrabarTimeframe || undefined,
+      intrabarResolution: params.intrabarResolution,
+      parameterRanges,
+      objective: optimizationObjective,
+    };
+  };
+
+  const handleRunOptimization = async () => {
+    const payload = buildOptimizerPayload();
+    if (!payload) return;
+    setLoading(true); setError(null); setOptimization(null);
+    try {
+      const response = await tradingService.runOptimization(payload);
+      if (response.error) throw response.error;
+      setOptimization(response.data as OptimizationResult);
+      setOptimizationSort({ key: 'optimization_rank', ascending: true });
+      toast.success(`Optimization finished: ${response.data.completed_combinations} combinations tested.`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to run optimization');
+      toast.error(`Optimization failed: ${err.message || 'Unknown error'}`);
+    }
+    finally { setLoading(false); }
+  };
+
+  const handleRunWalkForward = async () => {
+    const payload = buildOptimizerPayload();
+    if (!payload) return;
+    setLoading(true); setError(null); setCurrentReport(null);
+    try {
+      const response = await tradingService.runWalkForward({ ...payload, ...walkForwardDays });
+      if (response.error) throw response.error;
+      setCurrentReport(response.data as BacktestReport);
+      if (user?.id) loadPastReports(user.id);
+      toast.success(`Walk-forward finished over ${response.data.walk_forward_windows?.length ?? 0} windows.`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to run walk-forward analysis');
+      toast.error(`Walk-forward analysis failed: ${err.message || 'Unknown error'}`);
+    }
+    finally { setLoading(false); }
+  };
+
+  const handleRunMonteCarlo = async () => {
+    if (!currentReport) return;
+    setLoading(true); setError(null);
+    try {
+      const response = await tradingService.runMonteCarlo({ reportId: currentReport.id, ...monteCarloSettings });
+      if (response.error) throw response.error;
+      setCurrentReport(prev => prev && prev.id === currentReport.id ? { ...prev, monte_carlo: response.data as MonteCarloResult } : prev);
+    } catch (err: any) {
+      setError(err.message || 'Failed to run Monte Carlo analysis');
+      toast.error(`Monte Carlo analysis failed: ${err.message || 'Unknown error'}`);
+    }
+    finally { setLoading(false); }
+  };
+
+  const handleOptimizationSort = (key: keyof BacktestReport) => {
+    setOptimizationSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : key === 'optimization_rank' }));
+  };
+
+  const sortedOptimizationReports = optimization
+    ? [...optimization.reports].sort((a, b) => {
+        const av = a[optimizationSort.key] as number | null | undefined;
+        const bv = b[optimizationSort.key] as number | null | undefined;
+        if (av === bv) return 0;
+        if (av === null || av === undefined) return 1; // Missing values always last
+        if (bv === null || bv === undefined) return -1;
+        return optimizationSort.ascending ? av - bv : bv - av;
+      })
+    : [];
+
   const handleViewReport = async (reportId: string) => {
     setLoading(true); setError(null);
     try {
@@ -161,10 +468,24 @@ const BacktestingPage: React.FC = () => {
     finally { setLoading(false); }
   };
 
+  const { registry: strategyRegistry, error: strategyRegistryError } = useStrategyRegistry();
+  const selectedStrategy = strategyRegistry.strategies.find(s => s.name === params.strategySelectionMode);
+  const strategyParamKeys = new Set<string>([
+    ...strategyRegistry.commonParams.map(param => param.key),
+    ...strategyRegistry.strategies.flatMap(strategy => strategy.params.map(param => param.key)),
+  ]);
+
+  const handleTradingWindowsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTradingWindowsText(e.target.value);
+    const windows = parseTradingWindows(e.target.value);
+    if (windows) setParams(prev => ({ ...prev, strategyParams: { ...prev.strategyParams, tradingWindows: windows } }));
+  };
+
   const handleParamChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     const type = e.target.type; // For input type="number"
-    const parsedValue = type === 'number' ? (value === '' ? undefined : parseFloat(value)) : value;
+    const parsedValue = type === 'number' ? (value === '' ? undefined : parseFloat(value))
+      : type === 'checkbox' ? (e.target as HTMLInputElement).checked : value;
 
     setParams(prev => {
         const newParams = JSON.parse(JSON.stringify(prev)); // Deep copy for nested state
@@ -173,9 +494,14 @@ const BacktestingPage: React.FC = () => {
             newParams.strategySelectionMode = parsedValue as UIPerBacktestParams['strategySelectionMode'];
         } else if (name === 'riskLevel') {
             newParams.riskSettings.riskLevel = parsedValue as UIPerBacktestParams['riskSettings']['riskLevel'];
-        } else if (name === 'maxLotSize') {
-            newParams.riskSettings.maxLotSize = parsedValue as number | undefined;
-        } else if (Object.keys(newParams.strategyParams).includes(name)) {
+        } else if (name === 'spreadPoints' || name === 'swapLongPerLot' || name === 'swapShortPerLot') {
+            newParams.costModel[name] = parsedValue as number | undefined;
+        } else if (name === 'maxLotSize' || name === 'maxDailyLoss' || name === 'maxDailyTrades') {
+            newParams.riskSettings[name] = parsedValue as number | undefined;
+        } else if (name === 'max_drawdown_percent' || name === 'risk_per_trade_percent') {
+            // Entered as a percentage in the form, sent as a fraction
+            newParams.strategyParams[name] = parsedValue === undefined ? undefined : (parsedValue as number) / 100;
+        } else if (Object.keys(newParams.strategyParams).includes(name) || strategyParamKeys.has(name)) {
             (newParams.strategyParams as any)[name] = parsedValue;
         } else { // Top-level params like symbol, timeframe, startDate, endDate
             (newParams as any)[name] = parsedValue;
@@ -187,50 +513,68 @@ const BacktestingPage: React.FC = () => {
 
   const renderStrategyParamsInputs = () => {
     const sp = params.strategyParams; // shortcut
+    const renderParamInput = (param: StrategyParamDefinition) => (
+      <div key={param.key}><label>{param.label}: <input type="number" name={param.key} min={param.min} max={param.max} step={param.step} value={sp[param.key] ?? param.defaultValue} onChange={handleParamChange} /></label></div>
+    );
     return (
       <>
         <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
           <legend style={{color: '#ddd'}}>Global ATR (for SL/TP)</legend>
-          <div><label>ATR Period: <input type="number" name="atrPeriod" value={sp.atrPeriod ?? 14} onChange={handleParamChange} /></label></div>
-          <div><label>ATR SL Multiplier: <input type="number" step="0.1" name="atrMultiplierSL" value={sp.atrMultiplierSL ?? 1.5} onChange={handleParamChange} /></label></div>
-          <div><label>ATR TP Multiplier: <input type="number" step="0.1" name="atrMultiplierTP" value={sp.atrMultiplierTP ?? 3.0} onChange={handleParamChange} /></label></div>
+          {strategyRegistry.commonParams.map(renderParamInput)}
         </fieldset>
 
-        {(params.strategySelectionMode === 'SMA_ONLY' || params.strategySelectionMode === 'ADAPTIVE') && (
+        {selectedStrategy && selectedStrategy.params.length > 0 && (
           <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
-            <legend style={{color: '#ddd'}}>SMA Crossover Settings</legend>
-            <div><label>SMA Short: <input type="number" name="smaShortPeriod" value={sp.smaShortPeriod ?? 20} onChange={handleParamChange} /></label></div>
-            <div><label>SMA Long: <input type="number" name="smaLongPeriod" value={sp.smaLongPeriod ?? 50} onChange={handleParamChange} /></label></div>
-            {(params.strategySelectionMode === 'ADAPTIVE') && <div><label>ADX Confirm Level (for SMA): <input type="number" name="adxTrendMinLevel" value={sp.adxTrendMinLevel ?? 25} onChange={handleParamChange} /></label></div>}
+            <legend style={{color: '#ddd'}}>{selectedStrategy.label} Settings</legend>
+            {selectedStrategy.params.map(renderParamInput)}
           </fieldset>
         )}
 
-        {(params.strategySelectionMode === 'MEAN_REVERSION_ONLY' || params.strategySelectionMode === 'ADAPTIVE') && (
-          <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
-            <legend style={{color: '#ddd'}}>Mean Reversion (BB+RSI) Settings</legend>
-            <div><label>BB Period: <input type="number" name="bbPeriod" value={sp.bbPeriod ?? 20} onChange={handleParamChange} /></label></div>
-            <div><label>BB StdDev Mult: <input type="number" step="0.1" name="bbStdDevMult" value={sp.bbStdDevMult ?? 2} onChange={handleParamChange} /></label></div>
-            <div><label>RSI Period: <input type="number" name="rsiPeriod" value={sp.rsiPeriod ?? 14} onChange={handleParamChange} /></label></div>
-            <div><label>RSI Oversold: <input type="number" name="rsiOversold" value={sp.rsiOversold ?? 30} onChange={handleParamChange} /></label></div>
-            <div><label>RSI Overbought: <input type="number" name="rsiOverbought" value={sp.rsiOverbought ?? 70} onChange={handleParamChange} /></label></div>
-          </fieldset>
-        )}
-         {(params.strategySelectionMode === 'BREAKOUT_ONLY' || params.strategySelectionMode === 'ADAPTIVE') && (
-            <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
-                <legend style={{color: '#ddd'}}>Breakout Settings</legend>
-                <div><label>Breakout Lookback: <input type="number" name="breakoutLookbackPeriod" value={sp.breakoutLookbackPeriod ?? 50} onChange={handleParamChange} /></label></div>
-                <div><label>ATR Spike Multiplier: <input type="number" step="0.1" name="atrSpikeMultiplier" value={sp.atrSpikeMultiplier ?? 1.5} onChange={handleParamChange} /></label></div>
-            </fieldset>
-        )}
+        <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
+          <legend style={{color: '#ddd'}}>Trade Management (0 = off)</legend>
+          <div><label>Trailing Stop (ATR): <input type="number" step="0.1" name="trailingStopAtrMultiplier" value={sp.trailingStopAtrMultiplier ?? 0} onChange={handleParamChange} /></label></div>
+          <div><label>Breakeven After (ATR): <input type="number" step="0.1" name="breakevenTriggerAtr" value={sp.breakevenTriggerAtr ?? 0} onChange={handleParamChange} /></label></div>
+          <div><label>Partial Close Target (ATR): <input type="number" step="0.1" name="partialCloseTargetAtr" value={sp.partialCloseTargetAtr ?? 0} onChange={handleParamChange} /></label></div>
+          <div><label>Partial Close Fraction: <input type="number" step="0.05" min="0" max="1" name="partialClosePercent" value={sp.partialClosePercent ?? 0} onChange={handleParamChange} /></label></div>
+          <div><label>Max Trade Duration (min): <input type="number" step="15" name="maxTradeDurationMinutes" value={sp.maxTradeDurationMinutes ?? 0} onChange={handleParamChange} /></label></div>
+        </fieldset>
 
-        {params.strategySelectionMode === 'ADAPTIVE' && (
-          <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
-            <legend style={{color: '#ddd'}}>Adaptive Regime (ADX) Settings</legend>
-            <div><label>ADX Period: <input type="number" name="adxPeriod" value={sp.adxPeriod ?? 14} onChange={handleParamChange} /></label></div>
-            <div><label>ADX Range Threshold: <input type="number" name="adxRangeThreshold" value={sp.adxRangeThreshold ?? 20} onChange={handleParamChange} /></label></div>
-            <div><label>ADX Trend Threshold: <input type="number" name="adxTrendThreshold" value={sp.adxTrendThreshold ?? 25} onChange={handleParamChange} /></label></div>
-          </fieldset>
-        )}
+        <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
+          <legend style={{color: '#ddd'}}>Higher Timeframe Confirmation</legend>
+          <div><label>Filter: <select name="htfConfirmation" value={sp.htfConfirmation ?? 'NONE'} onChange={handleParamChange}>
+            <option value="NONE">Off</option>
+            <option value="SMA_SLOPE">SMA Slope</option>
+            <option value="ADX_REGIME">ADX Trend</option>
+          </select></label></div>
+          {sp.htfConfirmation && sp.htfConfirmation !== 'NONE' && (
+            <>
+              <div><label>Timeframe: <select name="htfTimeframe" value={sp.htfTimeframe ?? '1h'} onChange={handleParamChange}>
+                <option value="1h">1 Hour</option>
+                <option value="4h">4 Hours</option>
+              </select></label></div>
+              {sp.htfConfirmation === 'SMA_SLOPE' ? (
+                <div><label>SMA Period: <input type="number" step="1" min="2" name="htfSmaPeriod" value={sp.htfSmaPeriod ?? 20} onChange={handleParamChange} /></label></div>
+              ) : (
+                <>
+                  <div><label>ADX Period: <input type="number" step="1" min="2" name="htfAdxPeriod" value={sp.htfAdxPeriod ?? 14} onChange={handleParamChange} /></label></div>
+                  <div><label>Min ADX: <input type="number" step="1" min="0" name="htfAdxThreshold" value={sp.htfAdxThreshold ?? 25} onChange={handleParamChange} /></label></div>
+                </>
+              )}
+            </>
+          )}
+        </fieldset>
+
+        <fieldset style={{margin: '10px 0', border: '1px dashed #888', padding: '10px', background: '#222'}}>
+          <legend style={{color: '#ddd'}}>Entry Time Filters</legend>
+          <div><label>Timezone: <input type="text" name="tradingTimezone" placeholder="UTC" value={sp.tradingTimezone ?? 'UTC'} onChange={handleParamChange} /></label></div>
+          <div>
+            <label>Trading Windows: <input type="text" placeholder="Mon-Fri 07:00-16:00; Sun 22:00-06:00" value={tradingWindowsText} onChange={handleTradingWindowsChange} style={tradingWindowsInvalid ? { borderColor: '#FC8181' } : undefined} /></label>
+            <span className="text-xs text-gray-400"> (empty = any time)</span>
+          </div>
+          <div><label>Friday Cutoff: <input type="time" name="fridayCutoffTime" value={sp.fridayCutoffTime ?? ''} onChange={handleParamChange} /></label></div>
+          <div><label>Rollover Blackout (min each side, 0 = off): <input type="number" step="5" min="0" name="rolloverBlackoutMinutes" value={sp.rolloverBlackoutMinutes ?? 0} onChange={handleParamChange} /></label></div>
+          <div><label><input type="checkbox" name="newsBlackout" checked={!!sp.newsBlackout} onChange={handleParamChange} /> Skip entries around high-impact news</label></div>
+        </fieldset>
       </>
     );
   };
@@ -255,9 +599,13 @@ const BacktestingPage: React.FC = () => {
           <div>
             <label className={labelStyle}>Timeframe: </label>
             <select name="timeframe" value={params.timeframe} onChange={handleParamChange} className={inputStyle + " w-full"}>
-              <option value="15min">15 Minutes</option>
-              <option value="1hour">1 Hour</option>
-              <option value="daily">Daily</option>
+              <option value="1m">1 Minute</option>
+              <option value="5m">5 Minutes</option>
+              <option value="15m">15 Minutes</option>
+              <option value="30m">30 Minutes</option>
+              <option value="1h">1 Hour</option>
+              <option value="4h">4 Hours</option>
+              <option value="1d">Daily</option>
             </select>
           </div>
           <div><label className={labelStyle}>Start Date: </label><input type="date" name="startDate" value={params.startDate} onChange={handleParamChange} className={inputStyle + " w-full"} /></div>
@@ -267,11 +615,10 @@ const BacktestingPage: React.FC = () => {
         <div className="mb-4">
           <label className={labelStyle}>Strategy Mode: </label>
           <select name="strategySelectionMode" value={params.strategySelectionMode} onChange={handleParamChange} className={inputStyle + " w-full"}>
-            <option value="ADAPTIVE">Adaptive (Regime Switching)</option>
-            <option value="SMA_ONLY">SMA Crossover Only</option>
-            <option value="MEAN_REVERSION_ONLY">Mean Reversion Only</option>
-            <option value="BREAKOUT_ONLY">Breakout Only</option>
+            {strategyRegistry.strategies.map(strategy => <option key={strategy.name} value={strategy.name}>{strategy.label}</option>)}
           </select>
+          {selectedStrategy && <p className="text-xs text-gray-400 mt-1">{selectedStrategy.description} Needs {selectedStrategy.warmupBars} bars of warm-up.</p>}
+          {strategyRegistryError && <p className="text-xs text-red-400 mt-1">Could not load strategies: {strategyRegistryError}</p>}
         </div>
 
         <fieldset style={fieldsetStyle}>
@@ -290,9 +637,63 @@ const BacktestingPage: React.FC = () => {
                 <input type="number" step="0.01" name="commissionPerLot" value={params.commissionPerLot ?? 0} onChange={handleParamChange} className={inputStyle + " w-full"} />
             </div>
             <div className="mt-2">
-                <label className={labelStyle}>Slippage Points (e.g., 0.2 for XAUUSD): </label>
+                <label className={labelStyle}>Slippage Points per Fill (e.g., 0.2 for XAUUSD): </label>
                 <input type="number" step="0.01" name="slippagePoints" value={params.slippagePoints ?? 0} onChange={handleParamChange} className={inputStyle + " w-full"} />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
+                <div>
+                    <label className={labelStyle}>Spread (points, e.g. 0.3): </label>
+                    <input type="number" step="0.01" name="spreadPoints" value={params.costModel.spreadPoints ?? 0} onChange={handleParamChange} className={inputStyle + " w-full"} />
+                </div>
+                <div>
+                    <label className={labelStyle}>Swap Long ($/lot/night): </label>
+                    <input type="number" step="0.1" name="swapLongPerLot" value={params.costModel.swapLongPerLot ?? 0} onChange={handleParamChange} className={inputStyle + " w-full"} />
+                </div>
+                <div>
+                    <label className={labelStyle}>Swap Short ($/lot/night): </label>
+                    <input type="number" step="0.1" name="swapShortPerLot" value={params.costModel.swapShortPerLot ?? 0} onChange={handleParamChange} className={inputStyle + " w-full"} />
+                </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                <div>
+                    <label className={labelStyle}>Risk Per Trade (%): </label>
+                    <input type="number" step="0.1" name="risk_per_trade_percent" value={params.strategyParams.risk_per_trade_percent !== undefined ? +(params.strategyParams.risk_per_trade_percent * 100).toFixed(4) : ''} placeholder="1" onChange={handleParamChange} className={inputStyle + " w-full"} />
+                </div>
+                <div>
+                    <label className={labelStyle}>Max Drawdown Pause (%): </label>
+                    <input type="number" step="0.5" name="max_drawdown_percent" value={params.strategyParams.max_drawdown_percent !== undefined ? +(params.strategyParams.max_drawdown_percent * 100).toFixed(4) : ''} placeholder="10" onChange={handleParamChange} className={inputStyle + " w-full"} />
+                </div>
+                <div>
+                    <label className={labelStyle}>Max Daily Loss ($, 0 = off): </label>
+                    <input type="number" step="10" name="maxDailyLoss" value={params.riskSettings.maxDailyLoss ?? ''} placeholder="Risk level default" onChange={handleParamChange} className={inputStyle + " w-full"} />
+                </div>
+                <div>
+                    <label className={labelStyle}>Max Daily Trades (0 = off): </label>
+                    <input type="number" step="1" name="maxDailyTrades" value={params.riskSettings.maxDailyTrades ?? ''} placeholder="Risk level default" onChange={handleParamChange} className={inputStyle + " w-full"} />
+                </div>
+            </div>
+            <div className="mt-2">
+                <label className={labelStyle}>Initial Balance ($): </label>
+                <input type="number" step="100" name="initialBalance" value={params.initialBalance ?? 10000} onChange={handleParamChange} className={inputStyle + " w-full"} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                <div>
+                    <label className={labelStyle}>Intrabar SL/TP Data: </label>
+                    <select name="intrabarTimeframe" value={params.intrabarTimeframe ?? ''} onChange={handleParamChange} className={inputStyle + " w-full"}>
+                        <option value="">None (candle only)</option>
+                        <option value="1m">1 Minute</option>
+                        <option value="5m">5 Minutes</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelStyle}>If SL &amp; TP Hit in One Bar: </label>
+                    <select name="intrabarResolution" value={params.intrabarResolution} onChange={handleParamChange} className={inputStyle + " w-full"}>
+                        <option value="pessimistic">Pessimistic (SL first)</option>
+                        <option value="optimistic">Optimistic (TP first)</option>
+                        <option value="open_nearest">Nearest to Open First</option>
+                    </select>
+                </div>
+            </div>
         </fieldset>
 
         {renderStrategyParamsInputs()}
@@ -301,10 +702,122 @@ const BacktestingPage: React.FC = () => {
             <button onClick={handleFetchHistoricalData} disabled={loading} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition-colors disabled:opacity-50">
                 {loading ? 'Fetching Data...' : 'Fetch Historical Data'}
             </button>
+            <button onClick={handleCheckDataGaps} disabled={loading} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded transition-colors disabled:opacity-50">
+                Check Data Gaps
+            </button>
+            <button onClick={handleAggregatePriceData} disabled={loading} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded transition-colors disabled:opacity-50" title="Rebuild 5m, 15m, 1h, 4h and daily bars for the selected period from stored 1m bars">
+                Build Bars from 1m
+            </button>
             <button onClick={handleRunBacktest} disabled={loading} className="bg-yellow-500 hover:bg-yellow-600 text-gray-900 font-bold py-2 px-4 rounded transition-colors disabled:opacity-50">
             {loading ? 'Running...' : 'Run Backtest'}
             </button>
         </div>
+        {gapReport && (
+          <div className="mt-4 text-sm text-gray-300">
+            <p>
+              {gapReport.bars} {gapReport.timeframe} bars stored
+              {gapReport.first_bar && ` (${new Date(gapReport.first_bar).toLocaleString()} – ${new Date(gapReport.last_bar as string).toLocaleString()})`}.
+              {' '}{gapReport.missing_bars} bars missing across {gapReport.missing_gaps} gaps; {gapReport.market_closed_gaps} weekend/daily-break gaps are expected.
+            </p>
+            {gapReport.missing_gaps > 0 && (
+              <ul className="mt-2 max-h-40 overflow-y-auto text-xs font-mono text-yellow-300">
+                {gapReport.gaps.filter(gap => gap.kind === 'MISSING').map(gap => (
+                  <li key={gap.from}>{new Date(gap.from).toLocaleString()} → {new Date(gap.to).toLocaleString()}: {gap.missing_bars} missing</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div style={{ background: '#2D3748', padding: '20px', borderRadius: '8px', marginBottom: '20px', boxShadow: '0 4px 6px rgba(0,0,0,0.1)' }}>
+        <h2 style={{ fontSize: '1.5rem', fontWeight: 'semibold', marginBottom: '1rem', borderBottom: '1px solid #4A5568', paddingBottom: '0.5rem' }}>Import Price History</h2>
+        <PriceDataImport symbol={params.symbol} onImported={setGapReport} />
+      </div>
+
+      <div style={{ background: '#2D3748', padding: '20px', borderRadius: '8px', marginBottom: '20px', boxShadow: '0 4px 6px rgba(0,0,0,0.1)' }}>
+        <h2 style={{ fontSize: '1.5rem', fontWeight: 'semibold', marginBottom: '1rem', borderBottom: '1px solid #4A5568', paddingBottom: '0.5rem' }}>Parameter Optimizer</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Runs the backtest above for every combination of the ranges below. Enter a list ("10, 20, 30") or min:max:step ("10:30:5"); leave blank to keep the configured value.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          {OPTIMIZER_PARAMS.map(({ key, label }) => (
+            <div key={key}>
+              <label className={labelStyle}>{label} (current {params.strategyParams[key] ?? 'default'}): </label>
+              <input
+                value={optimizerRanges[key] ?? ''}
+                onChange={(e) => setOptimizerRanges(prev => ({ ...prev, [key]: e.target.value }))}
+                className={inputStyle + " w-full"}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mb-4">
+          <label className={labelStyle}>Rank By: </label>
+          <select value={optimizationObjective} onChange={(e) => setOptimizationObjective(e.target.value as OptimizationObjective)} className={inputStyle + " w-full"}>
+            {(Object.keys(OPTIMIZATION_OBJECTIVE_LABELS) as OptimizationObjective[]).map(objective =>
+              <option key={objective} value={objective}>{OPTIMIZATION_OBJECTIVE_LABELS[objective]}</option>)}
+          </select>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className={labelStyle}>Walk-Forward In-Sample (days): </label>
+            <input type="number" step="1" value={walkForwardDays.inSampleDays} onChange={(e) => setWalkForwardDays(prev => ({ ...prev, inSampleDays: parseFloat(e.target.value) || 0 }))} className={inputStyle + " w-full"} />
+          </div>
+          <div>
+            <label className={labelStyle}>Walk-Forward Out-of-Sample (days): </label>
+            <input type="number" step="1" value={walkForwardDays.outOfSampleDays} onChange={(e) => setWalkForwardDays(prev => ({ ...prev, outOfSampleDays: parseFloat(e.target.value) || 0 }))} className={inputStyle + " w-full"} />
+          </div>
+        </div>
+        <div className="flex gap-4">
+          <button onClick={handleRunOptimization} disabled={loading} className="bg-yellow-500 hover:bg-yellow-600 text-gray-900 font-bold py-2 px-4 rounded transition-colors disabled:opacity-50">
+            {loading ? 'Running...' : 'Run Optimization'}
+          </button>
+          <button onClick={handleRunWalkForward} disabled={loading} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition-colors disabled:opacity-50">
+            {loading ? 'Running...' : 'Run Walk-Forward'}
+          </button>
+        </div>
+
+        {optimization && (
+          <>
+            <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>
+              Results ({optimization.completed_combinations}/{optimization.total_combinations}, ranked by {OPTIMIZATION_OBJECTIVE_LABELS[optimization.objective]}):
+            </h3>
+            <div style={{maxHeight: '400px', overflowY: 'auto', border: '1px solid #4A5568', borderRadius: '4px'}}>
+              <table style={{width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem'}}>
+                <thead style={{backgroundColor: '#4A5568'}}>
+                  <tr>
+                    <th style={{padding: '8px', border: '1px solid #2D3748', textAlign: 'left'}}>Parameters</th>
+                    {OPTIMIZATION_COLUMNS.map(column =>
+                      <th key={column.key} onClick={() => handleOptimizationSort(column.key)} style={{padding: '8px', border: '1px solid #2D3748', textAlign: 'left', cursor: 'pointer'}}>
+                        {column.label}{optimizationSort.key === column.key ? (optimizationSort.ascending ? ' ▲' : ' ▼') : ''}
+                      </th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedOptimizationReports.map((report, index) => (
+                    <tr
+                      key={report.id}
+                      onClick={() => handleViewReport(report.id)}
+                      style={{cursor: 'pointer'}}
+                      className={report.id === optimization.best_report_id ? "bg-yellow-900/40" : (index % 2 === 0 ? "bg-gray-700/50" : "bg-gray-800/50")}
+                    >
+                      <td style={{padding: '8px', border: '1px solid #4A5568'}}>
+                        {Object.entries(report.optimization_params || {}).map(([key, value]) => `${key}=${value}`).join(', ')}
+                      </td>
+                      {OPTIMIZATION_COLUMNS.map(column =>
+                        <td key={column.key} style={{padding: '8px', border: '1px solid #4A5568'}}>
+                          {column.key === 'optimization_rank' || column.key === 'total_trades'
+                            ? report[column.key] as number
+                            : formatMetric(report[column.key] as number | null | undefined, column.suffix)}
+                        </td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
       </div>
 
       {currentReport && (
@@ -318,13 +831,199 @@ const BacktestingPage: React.FC = () => {
             <p className={currentReport.total_profit_loss >= 0 ? "text-green-400" : "text-red-400"}><strong>Total P/L:</strong> ${currentReport.total_profit_loss?.toFixed(2)}</p>
             <p><strong>Win Rate:</strong> {currentReport.win_rate?.toFixed(2)}%</p>
             <p><strong>Wins:</strong> {currentReport.winning_trades} / <strong>Losses:</strong> {currentReport.losing_trades}</p>
+            {currentReport.final_balance !== undefined && currentReport.final_balance !== null && (
+              <p><strong>Balance:</strong> ${Number(currentReport.initial_balance ?? 0).toFixed(2)} &rarr; ${Number(currentReport.final_balance).toFixed(2)}</p>
+            )}
+            {currentReport.cost_totals && (
+              <p>
+                <strong>Costs:</strong> ${currentReport.cost_totals.total.toFixed(2)}
+                {' '}(spread {currentReport.cost_totals.spread.toFixed(2)}, commission {currentReport.cost_totals.commission.toFixed(2)}, swap {currentReport.cost_totals.swap.toFixed(2)}, slippage {currentReport.cost_totals.slippage.toFixed(2)})
+              </p>
+            )}
+            {currentReport.entry_blackout_skips && Object.keys(currentReport.entry_blackout_skips).length > 0 && (
+              <p>
+                <strong>Entries Skipped by Time Filters:</strong>{' '}
+                {Object.entries(currentReport.entry_blackout_skips).map(([reason, count]) => `${reason.replace(/_/g, ' ').toLowerCase()} ${count}`).join(', ')}
+              </p>
+            )}
+            {currentReport.intrabar_resolution && currentReport.intrabar_resolution.ambiguous_candles > 0 && (
+              <p>
+                <strong>SL &amp; TP in One Candle:</strong> {currentReport.intrabar_resolution.ambiguous_candles}
+                {' '}({currentReport.intrabar_resolution.resolved_by_lower_timeframe} by lower-timeframe bars, {currentReport.intrabar_resolution.resolved_by_fallback} {currentReport.intrabar_resolution.mode})
+              </p>
+            )}
           </div>
+          <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>Risk &amp; Performance Metrics:</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            {[
+              { label: 'Max Drawdown', value: `${formatMetric(currentReport.max_drawdown, '', 2)} (${formatMetric(currentReport.max_drawdown_percent, '%')})` },
+              { label: 'Sharpe Ratio', value: formatMetric(currentReport.sharpe_ratio) },
+              { label: 'Sortino Ratio', value: formatMetric(currentReport.sortino_ratio) },
+              { label: 'Profit Factor', value: formatMetric(currentReport.profit_factor) },
+              { label: 'Expectancy / Trade', value: formatMetric(currentReport.expectancy) },
+              { label: 'Avg Win / Avg Loss', value: `${formatMetric(currentReport.average_win)} / ${formatMetric(currentReport.average_loss)}` },
+              { label: 'Longest Win / Loss Streak', value: `${currentReport.max_consecutive_wins ?? 'N/A'} / ${currentReport.max_consecutive_losses ?? 'N/A'}` },
+              { label: 'Avg Holding Time', value: formatHoldingTime(currentReport.average_holding_minutes) },
+              { label: 'Exposure', value: formatMetric(currentReport.exposure_percent, '%') },
+              { label: 'CAGR', value: formatMetric(currentReport.cagr_percent, '%') },
+            ].map(metric => (
+              <div key={metric.label} className="bg-gray-800/60 border border-gray-700 rounded p-3">
+                <div className="text-xs text-gray-400">{metric.label}</div>
+                <div className="text-white font-semibold">{metric.value}</div>
+              </div>
+            ))}
+          </div>
+          {currentReport.regime_breakdown && Object.keys(currentReport.regime_breakdown).length > 0 && (
+            <>
+              <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>P/L by Market Regime:</h3>
+              <div style={{border: '1px solid #4A5568', borderRadius: '4px'}}>
+                <table style={{width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem'}}>
+                  <thead style={{backgroundColor: '#4A5568'}}>
+                    <tr>
+                      {['Regime', 'Candles', 'Trades', 'Wins / Losses', 'P/L'].map(header =>
+                        <th key={header} style={{padding: '8px', border: '1px solid #2D3748', textAlign: 'left'}}>{header}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.entries(currentReport.regime_breakdown).map(([regime, entry], index) => (
+                      <tr key={regime} className={index % 2 === 0 ? "bg-gray-700/50" : "bg-gray-800/50"}>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{regime.replace(/_/g, ' ')}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{entry.decisions}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{entry.trades}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{entry.winning_trades} / {entry.losing_trades}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568', color: entry.profit_loss > 0 ? '#68D391' : (entry.profit_loss < 0 ? '#FC8181' : '#A0AEC0')}}>{entry.profit_loss.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+          {currentReport.walk_forward_windows && currentReport.walk_forward_windows.length > 0 && (
+            <>
+              <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>
+                Walk-Forward Windows (efficiency: {formatMetric(currentReport.walk_forward_efficiency)}):
+              </h3>
+              <div style={{maxHeight: '300px', overflowY: 'auto', border: '1px solid #4A5568', borderRadius: '4px'}}>
+                <table style={{width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem'}}>
+                  <thead style={{backgroundColor: '#4A5568'}}>
+                    <tr>
+                      {['#', 'Out-of-Sample Period', 'Best Parameters', 'IS Return', 'OOS Return', 'OOS P/L', 'OOS Trades', 'Efficiency'].map(header =>
+                        <th key={header} style={{padding: '8px', border: '1px solid #2D3748', textAlign: 'left'}}>{header}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {currentReport.walk_forward_windows.map((w, index) => (
+                      <tr key={w.window} className={index % 2 === 0 ? "bg-gray-700/50" : "bg-gray-800/50"}>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{w.window}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{new Date(w.out_of_sample_start).toLocaleDateString()} - {new Date(w.out_of_sample_end).toLocaleDateString()}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{w.best_params ? Object.entries(w.best_params).map(([key, value]) => `${key}=${value}`).join(', ') : 'N/A'}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{formatMetric(w.in_sample_return_percent, '%')}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{formatMetric(w.out_of_sample_return_percent, '%')}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568', color: w.out_of_sample_profit_loss > 0 ? '#68D391' : (w.out_of_sample_profit_loss < 0 ? '#FC8181' : '#A0AEC0')}}>{w.out_of_sample_profit_loss.toFixed(2)}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{w.out_of_sample_trades}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{formatMetric(w.efficiency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+          {currentReport.halt_events && currentReport.halt_events.length > 0 && (
+            <>
+              <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>Trading Halts:</h3>
+              <ul className="text-sm space-y-1">
+                {currentReport.halt_events.map((event, index) => (
+                  <li key={index} className={event.reason === 'MAX_DRAWDOWN' ? 'text-red-400' : 'text-yellow-300'}>
+                    <span className="font-mono">{new Date(event.time).toLocaleString()}</span> &mdash; <strong>{event.reason.replace(/_/g, ' ')}</strong>: {event.message}
+                    {event.resumesAt && <span className="text-gray-400"> (resumes {new Date(event.resumesAt).toLocaleString()})</span>}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {currentReport.equity_curve && currentReport.equity_curve.length > 0 && (
+            <>
+              <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>Equity Curve:</h3>
+              <div style={{ height: '260px', background: '#1A202C', borderRadius: '4px', padding: '8px' }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={currentReport.equity_curve}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                    <XAxis dataKey="time" tickFormatter={(t: string) => new Date(t).toLocaleDateString()} minTickGap={40} />
+                    <YAxis domain={['auto', 'auto']} />
+                    <Tooltip labelFormatter={(t) => new Date(String(t)).toLocaleString()} />
+                    <Line type="monotone" dataKey="equity" stroke="#F7B538" dot={false} strokeWidth={2} />
+                    <Line type="stepAfter" dataKey="balance" stroke="#68D391" dot={false} strokeWidth={1} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+          <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>Monte Carlo Robustness:</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+            <div>
+              <label className={labelStyle}>Iterations: </label>
+              <input type="number" step="100" min="1" max="10000" value={monteCarloSettings.iterations} onChange={(e) => setMonteCarloSettings(prev => ({ ...prev, iterations: parseInt(e.target.value, 10) || 0 }))} className={inputStyle + " w-full"} />
+            </div>
+            <div>
+              <label className={labelStyle}>Method: </label>
+              <select value={monteCarloSettings.method} onChange={(e) => setMonteCarloSettings(prev => ({ ...prev, method: e.target.value as 'shuffle' | 'bootstrap' }))} className={inputStyle + " w-full"}>
+                <option value="shuffle">Reshuffle Trades</option>
+                <option value="bootstrap">Resample (Bootstrap)</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelStyle}>Random Slippage (max points): </label>
+              <input type="number" step="0.01" min="0" value={monteCarloSettings.slippagePoints} onChange={(e) => setMonteCarloSettings(prev => ({ ...prev, slippagePoints: parseFloat(e.target.value) || 0 }))} className={inputStyle + " w-full"} />
+            </div>
+            <div>
+              <label className={labelStyle}>Ruin Threshold (% loss): </label>
+              <input type="number" step="5" min="1" max="100" value={monteCarloSettings.ruinThresholdPercent} onChange={(e) => setMonteCarloSettings(prev => ({ ...prev, ruinThresholdPercent: parseFloat(e.target.value) || 0 }))} className={inputStyle + " w-full"} />
+            </div>
+          </div>
+          <button onClick={handleRunMonteCarlo} disabled={loading || currentReport.total_trades === 0} className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-2 px-4 rounded transition-colors disabled:opacity-50">
+            {loading ? 'Running...' : 'Run Monte Carlo'}
+          </button>
+          {currentReport.monte_carlo && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 my-4 text-sm">
+                {[
+                  { label: 'Final Equity (5/50/95%)', value: `${formatMetric(currentReport.monte_carlo.final_equity.p5)} / ${formatMetric(currentReport.monte_carlo.final_equity.p50)} / ${formatMetric(currentReport.monte_carlo.final_equity.p95)}` },
+                  { label: 'Max Drawdown (5/50/95%)', value: `${formatMetric(currentReport.monte_carlo.max_drawdown_percent.p5, '%')} / ${formatMetric(currentReport.monte_carlo.max_drawdown_percent.p50, '%')} / ${formatMetric(currentReport.monte_carlo.max_drawdown_percent.p95, '%')}` },
+                  { label: `Risk of Ruin (-${currentReport.monte_carlo.ruin_threshold_percent}%)`, value: formatMetric(currentReport.monte_carlo.risk_of_ruin_percent, '%') },
+                  { label: 'Probability of Profit', value: formatMetric(currentReport.monte_carlo.probability_of_profit_percent, '%') },
+                ].map(metric => (
+                  <div key={metric.label} style={{ background: '#1A202C', padding: '10px', borderRadius: '6px' }}>
+                    <div className="text-gray-400">{metric.label}</div>
+                    <div className="text-lg font-semibold">{metric.value}</div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mb-2">
+                {currentReport.monte_carlo.iterations} {currentReport.monte_carlo.method === 'shuffle' ? 'reshuffled' : 'resampled'} runs of {currentReport.monte_carlo.trade_count} trades. Equity percentile bands by trade number:
+              </p>
+              <div style={{ height: '260px', background: '#1A202C', borderRadius: '4px', padding: '8px' }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={currentReport.monte_carlo.equity_bands}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                    <XAxis dataKey="trade" />
+                    <YAxis domain={['auto', 'auto']} />
+                    <Tooltip labelFormatter={(t) => `After trade ${t}`} />
+                    <Line type="monotone" dataKey="p95" name="95th percentile" stroke="#68D391" dot={false} strokeWidth={1} />
+                    <Line type="monotone" dataKey="p50" name="Median" stroke="#F7B538" dot={false} strokeWidth={2} />
+                    <Line type="monotone" dataKey="p5" name="5th percentile" stroke="#FC8181" dot={false} strokeWidth={1} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
           <h3 style={{ fontSize: '1.25rem', fontWeight: 'semibold', marginTop: '1.5rem', marginBottom: '0.5rem' }}>Simulated Trades:</h3>
           <div style={{maxHeight: '400px', overflowY: 'auto', border: '1px solid #4A5568', borderRadius: '4px'}}>
             <table style={{width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem'}}>
                 <thead style={{backgroundColor: '#4A5568'}}>
                     <tr>
-                        {['Entry Time', 'Type', 'Entry Price', 'Exit Time', 'Exit Price', 'P/L', 'Reason'].map(header =>
+                        {['Entry Time', 'Type', 'Entry Price', 'Exit Time', 'Exit Price', 'P/L', 'Costs', 'Reason', 'Regime'].map(header =>
                             <th key={header} style={{padding: '8px', border: '1px solid #2D3748', textAlign: 'left'}}>{header}</th>)}
                     </tr>
                 </thead>
@@ -337,7 +1036,12 @@ const BacktestingPage: React.FC = () => {
                         <td style={{padding: '8px', border: '1px solid #4A5568'}}>{trade.exitTime ? new Date(trade.exitTime).toLocaleString() : 'N/A'}</td>
                         <td style={{padding: '8px', border: '1px solid #4A5568'}}>{trade.exitPrice?.toFixed(4) || 'N/A'}</td>
                         <td style={{padding: '8px', border: '1px solid #4A5568', color: (trade.profitOrLoss ?? 0) > 0 ? '#68D391' : ((trade.profitOrLoss ?? 0) < 0 ? '#FC8181' : '#A0AEC0')}}>{trade.profitOrLoss?.toFixed(2)}</td>
+                        <td
+                          style={{padding: '8px', border: '1px solid #4A5568'}}
+                          title={trade.costs ? `Spread ${trade.costs.spread}, commission ${trade.costs.commission}, swap ${trade.costs.swap} (${trade.costs.swapNights} nights), slippage ${trade.costs.slippage}` : undefined}
+                        >{trade.costs?.total.toFixed(2) ?? 'N/A'}</td>
                         <td style={{padding: '8px', border: '1px solid #4A5568'}}>{trade.closeReason}</td>
+                        <td style={{padding: '8px', border: '1px solid #4A5568'}}>{trade.regime ? trade.regime.replace(/_/g, ' ') : '-'}</td>
                     </tr>
                 ))}
                 </tbody>
@@ -359,9 +1063,10 @@ const BacktestingPage: React.FC = () => {
               onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#2D3748'}
             >
               ID: <span className="text-yellow-400">{report.id.substring(0,8)}...</span> ({new Date(report.created_at).toLocaleDateString()}) <br/>
-              {report.symbol} ({report.timeframe}) | Strategy: {report.strategy_selection_mode || "N/A"} <br />
+              {report.symbol} ({report.timeframe}) | Strategy: {report.strategy_selection_mode || "N/A"}{report.walk_forward_windows && ' | Walk-Forward'} <br />
               P/L: <span className={ (report.total_profit_loss ?? 0) >= 0 ? "text-green-400" : "text-red-400"}>${report.total_profit_loss?.toFixed(2)}</span> |
               Win Rate: {report.win_rate?.toFixed(2)}% ({report.winning_trades}/{report.total_trades})
+              {report.sharpe_ratio !== undefined && <> | Sharpe: {formatMetric(report.sharpe_ratio)} | Max DD: {formatMetric(report.max_drawdown_percent, '%')}</>}
             </li>
           ))}
         </ul>
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { tradingService, StrategyParams, BotSession as BotSessionType } from '../services/tradingService';
+import { tradingService, StrategyParams, StrategyParamDefinition, StrategySelectionMode, BotSession as BotSessionType } from '../services/tradingService';
 import { useAuth } from '../hooks/useAuth';
+import { useStrategyRegistry, strategyParamDefaults } from '../hooks/useStrategyRegistry';
+import { parseTradingWindows } from '../lib/tradingWindows';
+import { BotDecisionTimeline } from '../components/BotDecisionTimeline';
 import { Bot, Play, /* Pause, Settings, AlertTriangle, CheckCircle, TrendingUp, Shield, Zap, */ PlusCircle, XCircle, RefreshCw, /* Activity */ } from 'lucide-react'; // Removed unused icons
 import { toast } from 'sonner'; // Import toast
 
@@ -8,8 +11,8 @@ import { toast } from 'sonner'; // Import toast
 interface NewSessionConfig {
   tradingAccountId: string;
   riskLevel: 'conservative' | 'medium' | 'risky';
-  strategySelectionMode: 'ADAPTIVE' | 'SMA_ONLY' | 'MEAN_REVERSION_ONLY' | 'BREAKOUT_ONLY';
-  strategyParams: Partial<StrategyParams>; // Use Partial for form state, ensure all defaults for submission
+  strategySelectionMode: StrategySelectionMode;
+  strategyParams: Partial<StrategyParams>; // Only the values edited in the form; registry defaults fill the rest on submit
 }
 
 // Define a type for Trading Accounts fetched for the dropdown
@@ -40,6 +43,7 @@ export function TradingBot() {
   const [isLoading, setIsLoading] = useState(true);
   const [isStartingSession, setIsStartingSession] = useState(false);
   const [isStoppingSession, setIsStoppingSession] = useState<string | null>(null); // Store ID of session being stopped
+  const [expandedDecisionsSessionId, setExpandedDecisionsSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const [showConfigModal, setShowConfigModal] = useState(false);
@@ -47,15 +51,15 @@ export function TradingBot() {
     tradingAccountId: '',
     riskLevel: 'medium',
     strategySelectionMode: 'ADAPTIVE',
-    strategyParams: { // Provide comprehensive defaults
-      smaShortPeriod: 20, smaLongPeriod: 50,
-      bbPeriod: 20, bbStdDevMult: 2,
-      rsiPeriod: 14, rsiOversold: 30, rsiOverbought: 70,
-      adxPeriod: 14, adxTrendMinLevel: 25, adxRangeThreshold: 20, adxTrendThreshold: 25,
-      atrPeriod: 14, atrMultiplierSL: 1.5, atrMultiplierTP: 3.0,
-      breakoutLookbackPeriod: 50, atrSpikeMultiplier: 1.5,
+    strategyParams: {
+      trailingStopAtrMultiplier: 0, breakevenTriggerAtr: 0, partialCloseTargetAtr: 0, partialClosePercent: 0, maxTradeDurationMinutes: 0,
+      htfConfirmation: 'NONE', htfTimeframe: '1h', htfSmaPeriod: 20, htfAdxPeriod: 14, htfAdxThreshold: 25,
+      tradingTimezone: 'UTC', fridayCutoffTime: '', rolloverBlackoutMinutes: 0, newsBlackout: false,
     },
   });
+  const [tradingWindowsText, setTradingWindowsText] = useState(''); // e.g. "Mon-Fri 07:00-16:00"; empty = any time
+  const { registry: strategyRegistry, error: strategyRegistryError } = useStrategyRegistry();
+  const selectedStrategy = strategyRegistry.strategies.find(s => s.name === newSessionConfig.strategySelectionMode);
 
   const [liveBotStats, setLiveBotStats] = useState<any>({ tradesToday: 0, successRate: '0%', profitToday: '$0.00', openPositions: 0 });
   const [recentLiveTrades, setRecentLiveTrades] = useState<DisplayTrade[]>([]);
@@ -132,6 +136,11 @@ export function TradingBot() {
       setError("User or Trading Account not selected.");
       return;
     }
+    const tradingWindows = parseTradingWindows(tradingWindowsText);
+    if (!tradingWindows) {
+      setError('Invalid trading windows. Use e.g. "Mon-Fri 07:00-16:00; Sun 22:00-06:00".');
+      return;
+    }
     setIsStartingSession(true); setError(null);
     try {
       const paramsToSubmit = {
@@ -139,17 +148,11 @@ export function TradingBot() {
         tradingAccountId: newSessionConfig.tradingAccountId,
         riskLevel: newSessionConfig.riskLevel,
         strategySelectionMode: newSessionConfig.strategySelectionMode,
-        // Ensure all strategyParams have defaults if not set in UI, or are fully populated
+        // Store every parameter of the selected strategy so the session keeps its settings if registry defaults change
         strategyParams: {
-            ...{ // Default structure to ensure all keys exist
-                smaShortPeriod: 20, smaLongPeriod: 50,
-                bbPeriod: 20, bbStdDevMult: 2,
-                rsiPeriod: 14, rsiOversold: 30, rsiOverbought: 70,
-                adxPeriod: 14, adxTrendMinLevel: 25, adxRangeThreshold: 20, adxTrendThreshold: 25,
-                atrPeriod: 14, atrMultiplierSL: 1.5, atrMultiplierTP: 3.0,
-                breakoutLookbackPeriod: 50, atrSpikeMultiplier: 1.5,
-            },
-            ...newSessionConfig.strategyParams
+            ...strategyParamDefaults(strategyRegistry, selectedStrategy),
+            ...newSessionConfig.strategyParams,
+            tradingWindows,
         } as StrategyParams,
       };
       const response = await tradingService.startBot(paramsToSubmit);
@@ -186,9 +189,11 @@ export function TradingBot() {
     const { name, value } = e.target;
     const inputType = e.target.type;
 
-    let parsedValue: string | number | undefined = value;
+    let parsedValue: string | number | boolean | undefined = value;
     if (inputType === 'number') {
         parsedValue = value === '' ? undefined : parseFloat(value);
+    } else if (inputType === 'checkbox') {
+        parsedValue = (e.target as HTMLInputElement).checked;
     }
 
     setNewSessionConfig(prev => {
@@ -208,62 +213,88 @@ export function TradingBot() {
     const labelClass = "block text-xs text-gray-400";
     const fieldsetWrapperClass = "mt-2 p-3 border border-gray-700 rounded";
     const legendClass = "text-sm font-medium text-gray-300 px-1";
+    const renderParamInput = (param: StrategyParamDefinition) => (
+      <div key={param.key}>
+        <label className={labelClass}>{param.label}:</label>
+        <input type="number" name={param.key} min={param.min} max={param.max} step={param.step} value={currentStrategyParams[param.key] ?? param.defaultValue} onChange={handleConfigChange} className={inputClass} />
+      </div>
+    );
 
     return (
       <>
         <fieldset className={fieldsetWrapperClass}>
           <legend className={legendClass}>Global ATR (for SL/TP)</legend>
           <div className="grid grid-cols-3 gap-2">
-            <div><label className={labelClass}>ATR Period:</label><input type="number" name="atrPeriod" value={currentStrategyParams.atrPeriod ?? 14} onChange={handleConfigChange} className={inputClass} /></div>
-            <div><label className={labelClass}>SL Mult:</label><input type="number" step="0.1" name="atrMultiplierSL" value={currentStrategyParams.atrMultiplierSL ?? 1.5} onChange={handleConfigChange} className={inputClass} /></div>
-            <div><label className={labelClass}>TP Mult:</label><input type="number" step="0.1" name="atrMultiplierTP" value={currentStrategyParams.atrMultiplierTP ?? 3.0} onChange={handleConfigChange} className={inputClass} /></div>
+            {strategyRegistry.commonParams.map(renderParamInput)}
           </div>
         </fieldset>
 
-        {(newSessionConfig.strategySelectionMode === 'SMA_ONLY' || newSessionConfig.strategySelectionMode === 'ADAPTIVE') && (
+        {selectedStrategy && selectedStrategy.params.length > 0 && (
           <fieldset className={fieldsetWrapperClass}>
-            <legend className={legendClass}>SMA Crossover</legend>
-            <div className="grid grid-cols-2 gap-2">
-              <div><label className={labelClass}>SMA Short:</label><input type="number" name="smaShortPeriod" value={currentStrategyParams.smaShortPeriod ?? 20} onChange={handleConfigChange} className={inputClass} /></div>
-              <div><label className={labelClass}>SMA Long:</label><input type="number" name="smaLongPeriod" value={currentStrategyParams.smaLongPeriod ?? 50} onChange={handleConfigChange} className={inputClass} /></div>
+            <legend className={legendClass}>{selectedStrategy.label}</legend>
+            <div className="grid grid-cols-3 gap-2">
+              {selectedStrategy.params.map(renderParamInput)}
             </div>
-             {(newSessionConfig.strategySelectionMode === 'ADAPTIVE') && <div className="mt-1"><label className={labelClass}>ADX Confirm (SMA):</label><input type="number" name="adxTrendMinLevel" value={currentStrategyParams.adxTrendMinLevel ?? 25} onChange={handleConfigChange} className={inputClass}/></div>}
           </fieldset>
         )}
 
-        {(newSessionConfig.strategySelectionMode === 'MEAN_REVERSION_ONLY' || newSessionConfig.strategySelectionMode === 'ADAPTIVE') && (
-          <fieldset className={fieldsetWrapperClass}>
-            <legend className={legendClass}>Mean Reversion (BB+RSI)</legend>
-             <div className="grid grid-cols-2 gap-2 mb-1">
-                <div><label className={labelClass}>BB Period:</label><input type="number" name="bbPeriod" value={currentStrategyParams.bbPeriod ?? 20} onChange={handleConfigChange} className={inputClass} /></div>
-                <div><label className={labelClass}>BB StdDev:</label><input type="number" step="0.1" name="bbStdDevMult" value={currentStrategyParams.bbStdDevMult ?? 2} onChange={handleConfigChange} className={inputClass} /></div>
-             </div>
-             <div className="grid grid-cols-3 gap-2">
-                <div><label className={labelClass}>RSI Period:</label><input type="number" name="rsiPeriod" value={currentStrategyParams.rsiPeriod ?? 14} onChange={handleConfigChange} className={inputClass} /></div>
-                <div><label className={labelClass}>RSI O/Sold:</label><input type="number" name="rsiOversold" value={currentStrategyParams.rsiOversold ?? 30} onChange={handleConfigChange} className={inputClass} /></div>
-                <div><label className={labelClass}>RSI O/Bought:</label><input type="number" name="rsiOverbought" value={currentStrategyParams.rsiOverbought ?? 70} onChange={handleConfigChange} className={inputClass} /></div>
-             </div>
-          </fieldset>
-        )}
-        {(newSessionConfig.strategySelectionMode === 'BREAKOUT_ONLY' || newSessionConfig.strategySelectionMode === 'ADAPTIVE') && (
-            <fieldset className={fieldsetWrapperClass}>
-                <legend className={legendClass}>Breakout</legend>
-                <div className="grid grid-cols-2 gap-2">
-                    <div><label className={labelClass}>Lookback:</label><input type="number" name="breakoutLookbackPeriod" value={currentStrategyParams.breakoutLookbackPeriod ?? 50} onChange={handleConfigChange} className={inputClass} /></div>
-                    <div><label className={labelClass}>ATR Spike Mult:</label><input type="number" step="0.1" name="atrSpikeMultiplier" value={currentStrategyParams.atrSpikeMultiplier ?? 1.5} onChange={handleConfigChange} className={inputClass} /></div>
-                </div>
-            </fieldset>
-        )}
-        {newSessionConfig.strategySelectionMode === 'ADAPTIVE' && (
-          <fieldset className={fieldsetWrapperClass}>
-            <legend className={legendClass}>Adaptive Regime (ADX)</legend>
-            <div className="grid grid-cols-3 gap-2">
-                <div><label className={labelClass}>ADX Period:</label><input type="number" name="adxPeriod" value={currentStrategyParams.adxPeriod ?? 14} onChange={handleConfigChange} className={inputClass} /></div>
-                <div><label className={labelClass}>Range Thresh:</label><input type="number" name="adxRangeThreshold" value={currentStrategyParams.adxRangeThreshold ?? 20} onChange={handleConfigChange} className={inputClass} /></div>
-                <div><label className={labelClass}>Trend Thresh:</label><input type="number" name="adxTrendThreshold" value={currentStrategyParams.adxTrendThreshold ?? 25} onChange={handleConfigChange} className={inputClass} /></div>
+        <fieldset className={fieldsetWrapperClass}>
+          <legend className={legendClass}>Trade Management (0 = off)</legend>
+          <div className="grid grid-cols-3 gap-2">
+            <div><label className={labelClass}>Trail (ATR):</label><input type="number" step="0.1" name="trailingStopAtrMultiplier" value={currentStrategyParams.trailingStopAtrMultiplier ?? 0} onChange={handleConfigChange} className={inputClass} /></div>
+            <div><label className={labelClass}>Breakeven (ATR):</label><input type="number" step="0.1" name="breakevenTriggerAtr" value={currentStrategyParams.breakevenTriggerAtr ?? 0} onChange={handleConfigChange} className={inputClass} /></div>
+            <div><label className={labelClass}>Max Hold (min):</label><input type="number" step="15" name="maxTradeDurationMinutes" value={currentStrategyParams.maxTradeDurationMinutes ?? 0} onChange={handleConfigChange} className={inputClass} /></div>
+            <div><label className={labelClass}>Partial At (ATR):</label><input type="number" step="0.1" name="partialCloseTargetAtr" value={currentStrategyParams.partialCloseTargetAtr ?? 0} onChange={handleConfigChange} className={inputClass} /></div>
+            <div><label className={labelClass}>Partial Fraction:</label><input type="number" step="0.05" min="0" max="1" name="partialClosePercent" value={currentStrategyParams.partialClosePercent ?? 0} onChange={handleConfigChange} className={inputClass} /></div>
+          </div>
+        </fieldset>
+
+        <fieldset className={fieldsetWrapperClass}>
+          <legend className={legendClass}>Higher Timeframe Confirmation</legend>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Filter:</label>
+              <select name="htfConfirmation" value={currentStrategyParams.htfConfirmation ?? 'NONE'} onChange={handleConfigChange} className={inputClass}>
+                <option value="NONE">Off</option>
+                <option value="SMA_SLOPE">SMA Slope</option>
+                <option value="ADX_REGIME">ADX Trend</option>
+              </select>
             </div>
-          </fieldset>
-        )}
+            {currentStrategyParams.htfConfirmation && currentStrategyParams.htfConfirmation !== 'NONE' && (
+              <div>
+                <label className={labelClass}>Timeframe:</label>
+                <select name="htfTimeframe" value={currentStrategyParams.htfTimeframe ?? '1h'} onChange={handleConfigChange} className={inputClass}>
+                  <option value="1h">1 Hour</option>
+                  <option value="4h">4 Hours</option>
+                </select>
+              </div>
+            )}
+            {currentStrategyParams.htfConfirmation === 'SMA_SLOPE' && (
+              <div><label className={labelClass}>SMA Period:</label><input type="number" step="1" min="2" name="htfSmaPeriod" value={currentStrategyParams.htfSmaPeriod ?? 20} onChange={handleConfigChange} className={inputClass} /></div>
+            )}
+            {currentStrategyParams.htfConfirmation === 'ADX_REGIME' && (
+              <>
+                <div><label className={labelClass}>ADX Period:</label><input type="number" step="1" min="2" name="htfAdxPeriod" value={currentStrategyParams.htfAdxPeriod ?? 14} onChange={handleConfigChange} className={inputClass} /></div>
+                <div><label className={labelClass}>Min ADX:</label><input type="number" step="1" min="0" name="htfAdxThreshold" value={currentStrategyParams.htfAdxThreshold ?? 25} onChange={handleConfigChange} className={inputClass} /></div>
+              </>
+            )}
+          </div>
+        </fieldset>
+
+        <fieldset className={fieldsetWrapperClass}>
+          <legend className={legendClass}>Entry Time Filters</legend>
+          <div className="grid grid-cols-3 gap-2">
+            <div><label className={labelClass}>Timezone:</label><input type="text" name="tradingTimezone" placeholder="UTC" value={currentStrategyParams.tradingTimezone ?? 'UTC'} onChange={handleConfigChange} className={inputClass} /></div>
+            <div><label className={labelClass}>Friday Cutoff:</label><input type="time" name="fridayCutoffTime" value={currentStrategyParams.fridayCutoffTime ?? ''} onChange={handleConfigChange} className={inputClass} /></div>
+            <div><label className={labelClass}>Rollover (± min):</label><input type="number" step="5" min="0" name="rolloverBlackoutMinutes" value={currentStrategyParams.rolloverBlackoutMinutes ?? 0} onChange={handleConfigChange} className={inputClass} /></div>
+            <div className="col-span-3">
+              <label className={labelClass}>Trading Windows (empty = any time):</label>
+              <input type="text" placeholder="Mon-Fri 07:00-16:00; Sun 22:00-06:00" value={tradingWindowsText} onChange={e => setTradingWindowsText(e.target.value)}
+                className={`${inputClass} ${parseTradingWindows(tradingWindowsText) === null ? 'border-red-500' : ''}`} />
+            </div>
+            <div className="col-span-3"><label className={labelClass}><input type="checkbox" name="newsBlackout" checked={!!currentStrategyParams.newsBlackout} onChange={handleConfigChange} /> Skip entries around high-impact news</label></div>
+          </div>
+        </fieldset>
       </>
     );
   };
@@ -329,6 +360,13 @@ export function TradingBot() {
                 {isStoppingSession === session.id ? <RefreshCw className="w-5 h-5 animate-spin" /> : <XCircle className="w-5 h-5" />}
                 {isStoppingSession === session.id ? 'Stopping...' : 'Stop Bot'}
               </button>
+              <button
+                onClick={() => setExpandedDecisionsSessionId(prev => prev === session.id ? null : session.id)}
+                className="w-full mt-2 text-xs text-gray-400 hover:text-white"
+              >
+                {expandedDecisionsSessionId === session.id ? 'Hide decisions' : 'Show decisions'}
+              </button>
+              {expandedDecisionsSessionId === session.id && <BotDecisionTimeline sessionId={session.id} />}
             </div>
           ))}
         </div>
@@ -402,11 +440,10 @@ export function TradingBot() {
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Strategy Selection Mode:</label>
                 <select name="strategySelectionMode" value={newSessionConfig.strategySelectionMode} onChange={handleConfigChange} className="w-full bg-gray-700 p-2 rounded border border-gray-600 text-white focus:border-yellow-500 focus:outline-none">
-                  <option value="ADAPTIVE">Adaptive (Regime Switching)</option>
-                  <option value="SMA_ONLY">SMA Crossover Only</option>
-                  <option value="MEAN_REVERSION_ONLY">Mean Reversion Only</option>
-                  <option value="BREAKOUT_ONLY">Breakout Only</option>
+                  {strategyRegistry.strategies.map(strategy => <option key={strategy.name} value={strategy.name}>{strategy.label}</option>)}
                 </select>
+                {selectedStrategy && <p className="text-xs text-gray-400 mt-1">{selectedStrategy.description}</p>}
+                {strategyRegistryError && <p className="text-xs text-red-400 mt-1">Could not load strategies: {strategyRegistryError}</p>}
               </div>
 
               <div className="text-gray-300 font-medium mt-3 mb-1">Strategy Parameters:</div>
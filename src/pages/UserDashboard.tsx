@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { tradingService } from '../services/tradingService';
+import { toast } from 'sonner';
+import { tradingService, PendingOrder } from '../services/tradingService';
 import { useAuth } from '../hooks/useAuth';
 import { 
   TrendingUp, 
@@ -40,6 +41,11 @@ export function UserDashboard() {
   const [balanceVisible, setBalanceVisible] = useState(true);
   const [accountSummary, setAccountSummary] = useState<AccountSummary | null>(null);
   const [openPositions, setOpenPositions] = useState<OpenPosition[]>([]);
+  const [pendingOrders, setPendingOrders] = useState<PendingOrder[]>([]);
+  const [pendingOrdersError, setPendingOrdersError] = useState<string | null>(null);
+  const [tradingAccountId, setTradingAccountId] = useState<string | null>(null);
+  const [editingOrder, setEditingOrder] = useState<{ ticket: string; entryPrice: string; expiresAt: string } | null>(null);
+  const [busyTicket, setBusyTicket] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -60,15 +66,31 @@ export function UserDashboard() {
     setIsLoading(true);
     setError(null);
     try {
-      // TODO: Determine which tradingAccountId to use if multiple. For now, undefined = default.
-      const summaryRes = await tradingService.getProviderAccountSummary();
+      // The dashboard shows the user's first active trading account, as the bot page does
+      const accountsRes = await tradingService.getTradingAccounts(user.id);
+      if (accountsRes.error) throw new Error(`Trading Accounts: ${accountsRes.error.message || 'Failed to fetch'}`);
+      const accountId = accountsRes.data?.[0]?.id ?? null;
+      setTradingAccountId(accountId);
+      if (!accountId) {
+        setAccountSummary(null);
+        setOpenPositions([]);
+        setPendingOrders([]);
+        return;
+      }
+
+      // Kept apart from the shared error: failing to list pending orders leaves the summary and positions in place
+      const pendingRes = await tradingService.listProviderPendingOrders(accountId);
+      setPendingOrdersError(pendingRes.error ? pendingRes.error.message || 'Failed to fetch' : null);
+      setPendingOrders(pendingRes.error ? [] : pendingRes.data || []);
+
+      const summaryRes = await tradingService.getProviderAccountSummary(accountId);
       if (summaryRes.error) throw new Error(`Account Summary: ${summaryRes.error.message || 'Failed to fetch'}`);
       // The actual structure of summaryRes.data depends on your Supabase function and MT provider
       // Assuming it returns something like { balance: 10000, equity: 10500, profit: 50, currency: 'USD' }
       setAccountSummary(summaryRes.data?.summary || summaryRes.data || {});
 
 
-      const positionsRes = await tradingService.listProviderOpenPositions();
+      const positionsRes = await tradingService.listProviderOpenPositions(accountId);
       if (positionsRes.error) throw new Error(`Open Positions: ${positionsRes.error.message || 'Failed to fetch'}`);
       // Assuming positionsRes.data is an array of OpenPosition
       setOpenPositions(positionsRes.data?.positions || positionsRes.data || []);
@@ -86,6 +108,50 @@ export function UserDashboard() {
     fetchDashboardData();
   }, [fetchDashboardData]);
 
+  const handleCancelOrder = async (order: PendingOrder) => {
+    if (!tradingAccountId) return;
+    setBusyTicket(order.ticket);
+    const { data, error } = await tradingService.cancelOrderProvider(order.ticket, tradingAccountId);
+    setBusyTicket(null);
+    if (error || !data?.success) {
+      toast.error(`Could not cancel order ${order.ticket}: ${error?.message || data?.error}`);
+      return;
+    }
+    toast.success(`${order.type} ${order.orderType.replace('_', ' ')} order cancelled.`);
+    setPendingOrders(prev => prev.filter(o => o.ticket !== order.ticket));
+  };
+
+  const handleSaveOrder = async () => {
+    if (!editingOrder || !tradingAccountId) return;
+    const entryPrice = parseFloat(editingOrder.entryPrice);
+    if (!(entryPrice > 0)) {
+      toast.error('Entry price must be a positive number.');
+      return;
+    }
+    setBusyTicket(editingOrder.ticket);
+    const { data, error } = await tradingService.modifyTradeOrderProvider({
+      ticketId: editingOrder.ticket,
+      tradingAccountId,
+      entryPrice,
+      expiresAt: editingOrder.expiresAt ? new Date(editingOrder.expiresAt).toISOString() : null,
+    });
+    setBusyTicket(null);
+    if (error || !data?.success) {
+      toast.error(`Could not modify order ${editingOrder.ticket}: ${error?.message || data?.error}`);
+      return;
+    }
+    toast.success('Pending order updated.');
+    setEditingOrder(null);
+    fetchDashboardData();
+  };
+
+  // datetime-local wants local time without a zone
+  const toLocalInput = (iso?: string) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  };
+
   const formatCurrency = (value?: number, currency?: string) => {
     if (value === undefined || value === null) return 'N/A';
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(value);
@@ -279,6 +345,90 @@ export function UserDashboard() {
           )}
         </div>
       </div>
+
+      {/* Pending Orders */}
+      <div className="mt-8 bg-gray-900/50 backdrop-blur-xl border border-gray-800 rounded-xl p-6">
+        <h2 className="text-xl font-semibold text-white mb-6">Pending Orders ({pendingOrders.length})</h2>
+        {isLoading && <div className="h-16 flex items-center text-gray-500"><Loader2 className="w-5 h-5 animate-spin mr-2"/>Loading orders...</div>}
+        {!isLoading && pendingOrdersError && <p className="text-red-500">Error loading pending orders: {pendingOrdersError}</p>}
+        {!isLoading && !pendingOrdersError && pendingOrders.length === 0 && <p className="text-gray-400">No pending orders.</p>}
+        {!isLoading && !pendingOrdersError && pendingOrders.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 uppercase border-b border-gray-700">
+                <tr>
+                  <th className="py-2 pr-4">Order</th>
+                  <th className="py-2 pr-4">Lots</th>
+                  <th className="py-2 pr-4">Entry</th>
+                  <th className="py-2 pr-4">SL / TP</th>
+                  <th className="py-2 pr-4">Placed</th>
+                  <th className="py-2 pr-4">Expires</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {pendingOrders.map((order) => {
+                  const editing = editingOrder?.ticket === order.ticket ? editingOrder : null;
+                  return (
+                    <tr key={order.ticket} className="border-b border-gray-800">
+                      <td className="py-3 pr-4">
+                        <span className={`px-2 py-1 rounded text-xs font-medium mr-2 ${
+                          order.type === 'BUY' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'
+                        }`}>
+                          {order.type} {order.orderType.replace('_', ' ')}
+                        </span>
+                        <span className="text-white">{order.symbol}</span>
+                      </td>
+                      <td className="py-3 pr-4">{order.lots}</td>
+                      <td className="py-3 pr-4">
+                        {editing ? (
+                          <input type="number" step="0.01" value={editing.entryPrice} onChange={e => setEditingOrder({ ...editing, entryPrice: e.target.value })}
+                            className="bg-gray-700 text-white p-1 rounded border border-gray-600 w-28" />
+                        ) : (
+                          <>
+                            {order.entryPrice}
+                            {order.stopLimitPrice !== undefined && <span className="text-gray-400"> → {order.stopLimitPrice}{order.triggered ? ' (triggered)' : ''}</span>}
+                          </>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">{order.stopLoss ?? '-'} / {order.takeProfit ?? '-'}</td>
+                      <td className="py-3 pr-4">{new Date(order.placedAt).toLocaleString()}</td>
+                      <td className="py-3 pr-4">
+                        {editing ? (
+                          <input type="datetime-local" value={editing.expiresAt} onChange={e => setEditingOrder({ ...editing, expiresAt: e.target.value })}
+                            className="bg-gray-700 text-white p-1 rounded border border-gray-600" />
+                        ) : (order.expiresAt ? new Date(order.expiresAt).toLocaleString() : 'Good till cancelled')}
+                      </td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        {editing ? (
+                          <>
+                            <button onClick={handleSaveOrder} disabled={busyTicket === order.ticket} className="text-yellow-400 hover:text-yellow-300 mr-3 disabled:opacity-50">Save</button>
+                            <button onClick={() => setEditingOrder(null)} className="text-gray-400 hover:text-gray-300">Discard</button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() => setEditingOrder({ ticket: order.ticket, entryPrice: String(order.entryPrice), expiresAt: toLocalInput(order.expiresAt) })}
+                              disabled={busyTicket === order.ticket || order.triggered}
+                              title={order.triggered ? 'The stop has traded; the order now rests at its limit price' : undefined}
+                              className="text-yellow-400 hover:text-yellow-300 mr-3 disabled:opacity-50"
+                            >
+                              Modify
+                            </button>
+                            <button onClick={() => handleCancelOrder(order)} disabled={busyTicket === order.ticket} className="text-red-400 hover:text-red-300 disabled:opacity-50">
+                              {busyTicket === order.ticket ? 'Working...' : 'Cancel'}
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
 import { Database } from '../types/database';
 import { notificationService } from './notificationService';
+import { sma, rsi } from '../../supabase/functions/_shared/indicators.ts';
 
 type TradingAccount = Database['public']['Tables']['trading_accounts']['Row'];
 type Trade = Database['public']['Tables']['trades']['Row'];
@@ -230,18 +231,19 @@ export class TradingEngine {
       return { action: 'HOLD', confidence: 0, reason: 'Insufficient price history' };
     }
 
-    // Technical Analysis
-    const prices = priceHistory.map(p => p.close_price);
-    const sma5 = this.calculateSMA(prices, 5);
-    const sma10 = this.calculateSMA(prices, 10);
-    const rsi = this.calculateRSI(prices, 14);
+    // Technical Analysis (shared indicators expect oldest first; the query returns newest first)
+    const prices = priceHistory.map(p => p.close_price).reverse();
+    const last = prices.length - 1;
+    const sma5 = sma(prices, 5)[last];
+    const sma10 = sma(prices, 10)[last];
+    const rsi14 = rsi(prices, 14)[last] ?? 50; // Neutral until there are 15 closes
     
     // Trading logic based on risk level
     const signal = this.analyzeSignals(session.risk_level, {
       currentPrice: (marketData.bid + marketData.ask) / 2,
       sma5,
       sma10,
-      rsi,
+      rsi: rsi14,
       spread: marketData.spread
     });
 
@@ -487,30 +489,6 @@ export class TradingEngine {
   }
 
   // Utility Methods
-  private calculateSMA(prices: number[], period: number): number {
-    if (prices.length < period) return prices[0] || 0;
-    const sum = prices.slice(0, period).reduce((a, b) => a + b, 0);
-    return sum / period;
-  }
-
-  private calculateRSI(prices: number[], period: number): number {
-    if (prices.length < period + 1) return 50;
-
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 1; i <= period; i++) {
-      const change = prices[i - 1] - prices[i];
-      if (change > 0) gains += change;
-      else losses -= change;
-    }
-
-    const avgGain = gains / period;
-    const avgLoss = losses / period;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  }
-
   private calculateProfitLoss(trade: Trade, closePrice: number): number {
     const priceDiff = trade.trade_type === 'BUY' 
       ? closePrice - trade.open_price
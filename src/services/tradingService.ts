@@ -6,11 +6,41 @@ type TradingAccount = Database['public']['Tables']['trading_accounts']['Row'];
 type Trade = Database['public']['Tables']['trades']['Row'];
 export type BotSession = Database['public']['Tables']['bot_sessions']['Row'] & {
   strategy_params?: StrategyParams;
-  strategy_selection_mode?: 'ADAPTIVE' | 'SMA_ONLY' | 'MEAN_REVERSION_ONLY' | 'BREAKOUT_ONLY';
+  strategy_selection_mode?: StrategySelectionMode;
   trading_accounts?: { server_name: string, platform: string };
 };
 type Notification = Database['public']['Tables']['notifications']['Row'];
 
+// Name of a strategy registered in the trading engine (see listStrategies), e.g. 'ADAPTIVE'
+export type StrategySelectionMode = string;
+
+// Strategy parameters with numeric values; the only kind the registry and the optimizer handle
+export type NumericStrategyParamKey = {
+  [K in keyof StrategyParams]-?: NonNullable<StrategyParams[K]> extends number ? K : never
+}[keyof StrategyParams];
+
+export interface StrategyParamDefinition {
+  key: NumericStrategyParamKey;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface StrategyDefinition {
+  name: StrategySelectionMode;
+  label: string;
+  description: string;
+  params: StrategyParamDefinition[]; // Strategy-specific; commonParams apply to every strategy
+  warmupBars: number;                // Bars needed before the first signal, at default parameters
+}
+
+export interface StrategyRegistry {
+  commonParams: StrategyParamDefinition[];
+  strategies: StrategyDefinition[];
+}
+
 export interface StrategyParams {
   atrPeriod?: number;
   atrMultiplierSL?: number;
@@ -27,14 +57,180 @@ export interface StrategyParams {
   adxRangeThreshold?: number;
   adxTrendThreshold?: number;
   breakoutLookbackPeriod?: number;
+  minChannelWidthATR?: number;
   atrSpikeMultiplier?: number;
+  risk_per_trade_percent?: number; // Fraction of equity risked per trade, e.g. 0.01
+  max_drawdown_percent?: number;   // Fraction of peak equity, e.g. 0.10
+  // In-trade management; distances are ATR multiples and 0 turns a feature off
+  trailingStopAtrMultiplier?: number;
+  breakevenTriggerAtr?: number;     // Favourable move that moves the SL to entry
+  partialCloseTargetAtr?: number;   // First target, measured from entry
+  partialClosePercent?: number;     // Fraction of lots closed at the first target, e.g. 0.5
+  maxTradeDurationMinutes?: number;
+  // Higher-timeframe entry filter built from the decision bars; 'NONE' turns it off
+  htfConfirmation?: 'NONE' | 'SMA_SLOPE' | 'ADX_REGIME';
+  htfTimeframe?: '1h' | '4h';
+  htfSmaPeriod?: number;     // SMA_SLOPE: BUY needs a rising SMA, SELL a falling one
+  htfAdxPeriod?: number;     // ADX_REGIME
+  htfAdxThreshold?: number;  // ADX_REGIME: minimum ADX, with +DI/-DI in the trade's direction
+  // Entry time filters; exits and trade management are never blocked
+  tradingTimezone?: string;         // IANA name, e.g. 'Europe/London'
+  tradingWindows?: TradingWindow[]; // Empty = any time
+  fridayCutoffTime?: string;        // 'HH:MM'; no new entries after this on Friday
+  rolloverBlackoutMinutes?: number; // Either side of the 17:00 New York rollover
+  newsBlackout?: boolean;           // Skip entries around news_blackout_events
+}
+
+// One processBotSession evaluation (list_bot_decisions_action)
+export interface BotDecision {
+  id: string;
+  session_id: string;
+  decided_at: string;
+  strategy: string;
+  regime: string | null;
+  indicators: Partial<Record<'sma_short' | 'sma_long' | 'bb_upper' | 'bb_middle' | 'bb_lower' | 'rsi' | 'adx' | 'plus_di' | 'minus_di' | 'atr', number | null>>;
+  signal: 'BUY' | 'SELL' | 'NONE';
+  price: number | null;
+  stop_loss: number | null;
+  take_profit: number | null;
+  lot_size: number | null;
+  executed: boolean;
+  trade_ticket: string | null;
+  skip_reason: string | null; // e.g. 'NO_SIGNAL', 'OPEN_POSITION', 'DRAWDOWN_PAUSE', 'INSUFFICIENT_DATA', 'STALE_DATA'
+  message: string | null;
+}
+
+// Stored bars use these timeframe names; the engine also accepts '15min', '60min', 'daily', 'M15', ...
+export type PriceTimeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+
+// A hole between two stored bars (detect_price_gaps_action). MARKET_CLOSED gaps are the weekend or
+// the daily break; MISSING ones need backfilling.
+export interface PriceGap {
+  from: string;
+  to: string;
+  missing_bars: number;
+  kind: 'MARKET_CLOSED' | 'MISSING';
+}
+
+export interface PriceGapReport {
+  symbol: string;
+  timeframe: PriceTimeframe;
+  bars: number;
+  first_bar: string | null;
+  last_bar: string | null;
+  gaps: PriceGap[];
+  missing_gaps: number;
+  missing_bars: number;
+  market_closed_gaps: number;
+}
+
+// Per-source health of the market data failover (get_market_data_status_action)
+export interface MarketDataProviderHealth {
+  consecutive_failures: number;
+  benched_until: string | null; // Skipped until then unless every other source fails too
+  last_error: string | null;
+  last_failure_at: string | null;
+  last_success_at: string | null;
+}
+
+export interface MarketDataStatus {
+  providers: string[]; // Failover order, e.g. ['ALPHA_VANTAGE', 'METATRADER', 'REPLAY']
+  health: Record<string, MarketDataProviderHealth>;
+}
+
+// One bar of an uploaded price file, time as ISO UTC (import_price_data_action)
+export interface PriceImportBar {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
 }
 
+export interface PriceImportBatchResult {
+  timeframe: PriceTimeframe;
+  stored: number;
+  rejected: number;   // Failed OHLC validation on the server
+  duplicates: number; // Same timestamp twice in the batch
+}
+
+export interface TradingWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday, in tradingTimezone
+  start: string;  // 'HH:MM'
+  end: string;    // 'HH:MM'; earlier than start runs past midnight
+}
+
+// Spread/commission/swap/slippage model applied to backtests and simulated trades
+export interface TradingCostModel {
+  spreadPoints: number;
+  spreadSchedule: Array<{ fromHourUtc: number; toHourUtc: number; spreadPoints: number }>;
+  commissionPerLot: number;
+  swapLongPerLot: number;   // Per lot per rollover; negative = charged
+  swapShortPerLot: number;
+  rolloverHourUtc: number;
+  tripleSwapWeekday: number; // 3 = Wednesday
+  slippagePoints: number;    // Per fill
+}
+
+// Fallback order of SL/TP inside one candle when lower-timeframe data can't decide
+export type IntrabarResolutionMode = 'pessimistic' | 'optimistic' | 'open_nearest';
+
+export type OptimizationObjective =
+  'net_profit' | 'sharpe_ratio' | 'sortino_ratio' | 'profit_factor' | 'expectancy' | 'win_rate' | 'cagr_percent';
+
+// Either an explicit list of values or an inclusive {min, max, step} range
+export type OptimizationParameterRange = number[] | { min: number; max: number; step: number };
+
+// Provider actions act on one of the signed-in user's trading accounts; the engine checks ownership
 export interface CloseOrderProviderParams {
   ticketId: string;
+  tradingAccountId: string;
   lots?: number;
 }
 
+export interface ModifyOrderProviderParams {
+  ticketId: string;
+  tradingAccountId: string;
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  // Pending orders only; null expiresAt makes the order good till cancelled
+  entryPrice?: number;
+  stopLimitPrice?: number;
+  expiresAt?: string | null;
+}
+
+// MARKET fills at once; LIMIT, STOP and STOP_LIMIT rest as pending orders at entryPrice
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+
+export interface PlaceOrderProviderParams {
+  tradingAccountId: string;
+  tradeType: 'BUY' | 'SELL';
+  orderType: OrderType;
+  lotSize: number;
+  entryPrice?: number; // Required for pending orders
+  stopLimitPrice?: number; // STOP_LIMIT only: the limit placed once entryPrice trades
+  stopLossPrice: number;
+  takeProfitPrice?: number;
+  expiresAt?: string;
+}
+
+export interface PendingOrder {
+  ticket: string;
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  orderType: Exclude<OrderType, 'MARKET'>;
+  lots: number;
+  entryPrice: number;
+  stopLimitPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  placedAt: string;
+  expiresAt?: string;
+  triggered?: boolean; // STOP_LIMIT whose stop has traded
+  comment?: string;
+}
+
 export class TradingService {
   private static instance: TradingService;
   private priceCallbacks: ((price: number) => void)[] = [];
@@ -121,6 +317,7 @@ export class TradingService {
     riskLevel: 'conservative' | 'medium' | 'risky';
     strategySelectionMode: BotSession['strategy_selection_mode'];
     strategyParams: StrategyParams;
+    mode?: BotSession['mode']; // 'replay' sessions only run through market replay
   }) {
     try {
       const { data, error } = await supabase.from('bot_sessions').insert({
@@ -129,6 +326,7 @@ export class TradingService {
         risk_level: params.riskLevel,
         strategy_selection_mode: params.strategySelectionMode,
         strategy_params: params.strategyParams,
+        mode: params.mode ?? 'live',
         status: 'active',
         session_start: new Date().toISOString(),
       }).select().single();
@@ -172,12 +370,22 @@ export class TradingService {
     }
   }
 
+  // Only the session's owner can list its decisions
+  async listBotDecisions(sessionId: string, limit = 100): Promise<{ data: BotDecision[] | null; error: any }> {
+    return this.invoke('list_bot_decisions_action', { sessionId, limit });
+  }
+
+  // --- Strategies ---
+  async listStrategies(): Promise<{ data: StrategyRegistry | null; error: any }> {
+    return this.invoke('list_strategies_action', {});
+  }
+
   // --- Provider Actions ---
-  async getProviderAccountSummary(tradingAccountId?: string) {
+  async getProviderAccountSummary(tradingAccountId: string) {
     return this.invoke('provider_get_account_summary', { tradingAccountId });
   }
 
-  async listProviderOpenPositions(tradingAccountId?: string) {
+  async listProviderOpenPositions(tradingAccountId: string) {
     return this.invoke('provider_list_open_positions', { tradingAccountId });
   }
 
@@ -185,10 +393,30 @@ export class TradingService {
     return this.invoke('provider_close_order', params);
   }
 
+  async modifyTradeOrderProvider(params: ModifyOrderProviderParams) {
+    return this.invoke('provider_modify_order', params);
+  }
+
+  async placeOrderProvider(params: PlaceOrderProviderParams) {
+    return this.invoke('provider_place_order', params);
+  }
+
+  async cancelOrderProvider(ticketId: string, tradingAccountId: string) {
+    return this.invoke('provider_cancel_order', { ticketId, tradingAccountId });
+  }
+
+  async listProviderPendingOrders(tradingAccountId: string) {
+    return this.invoke('provider_list_pending_orders', { tradingAccountId });
+  }
+
   async fetchProviderServerTime() {
     return this.invoke('provider_get_server_time', {});
   }
 
+  async getMarketDataStatus(): Promise<{ data: MarketDataStatus | null; error: any }> {
+    return this.invoke('get_market_data_status_action', {});
+  }
+
   // --- Trade Table (User History) ---
   async getUserTrades(userId: string, limit = 50) {
     return supabase
@@ -230,10 +458,40 @@ export class TradingService {
     toCurrency?: string;
     interval?: string;
     outputsize?: string;
+    aggregate?: boolean; // 1m fetches also rebuild 5m-1d bars unless false
   }) {
     return this.invoke('fetch_historical_data_action', params);
   }
 
+  async detectPriceGaps(params: {
+    symbol: string;
+    timeframe: string;
+    startDate: string;
+    endDate: string;
+  }): Promise<{ data: PriceGapReport | null; error: any }> {
+    return this.invoke('detect_price_gaps_action', params);
+  }
+
+  // Builds higher-timeframe bars from stored lower-timeframe ones (1m -> 5m/15m/1h/4h/1d by default)
+  async aggregatePriceData(params: {
+    symbol: string;
+    startDate: string;
+    endDate: string;
+    sourceTimeframe?: string;
+    targetTimeframes?: PriceTimeframe[];
+  }): Promise<{ data: { built: Partial<Record<PriceTimeframe, number>> } | null; error: any }> {
+    return this.invoke('aggregate_price_data_action', params);
+  }
+
+  // Stores one batch of bars parsed from an uploaded file; see src/lib/priceImport.ts
+  async importPriceData(params: {
+    symbol: string;
+    timeframe: string;
+    bars: PriceImportBar[];
+  }): Promise<{ data: PriceImportBatchResult | null; error: any }> {
+    return this.invoke('import_price_data_action', params);
+  }
+
   // --- Backtesting ---
   async runBacktest(params: {
     userId?: string;
@@ -246,9 +504,15 @@ export class TradingService {
     riskSettings: {
       riskLevel?: 'conservative' | 'medium' | 'risky';
       maxLotSize?: number;
+      maxDailyLoss?: number;
+      maxDailyTrades?: number;
     };
     commissionPerLot?: number;
     slippagePoints?: number;
+    costModel?: Partial<TradingCostModel>; // Overrides commissionPerLot/slippagePoints when both are given
+    initialBalance?: number;
+    intrabarTimeframe?: string; // Lower timeframe replayed when SL and TP fall inside one candle, e.g. '1m'
+    intrabarResolution?: IntrabarResolutionMode;
   }) {
     return this.invoke('run_backtest_action', params);
   }
@@ -261,6 +525,35 @@ export class TradingService {
     return this.invoke('list_backtests_action', { userId });
   }
 
+  async runOptimization(params: Parameters<TradingService['runBacktest']>[0] & {
+    parameterRanges: Partial<Record<keyof StrategyParams, OptimizationParameterRange>>;
+    objective?: OptimizationObjective;
+  }) {
+    return this.invoke('run_optimization_action', params);
+  }
+
+  async getOptimization(optimizationId: string) {
+    return this.invoke('get_optimization_action', { optimizationId });
+  }
+
+  async runWalkForward(params: Parameters<TradingService['runOptimization']>[0] & {
+    inSampleDays?: number;
+    outOfSampleDays?: number;
+  }) {
+    return this.invoke('run_walk_forward_action', params);
+  }
+
+  async runMonteCarlo(params: {
+    reportId: string;
+    iterations?: number;
+    method?: 'shuffle' | 'bootstrap';
+    slippagePoints?: number;
+    ruinThresholdPercent?: number;
+    seed?: number;
+  }) {
+    return this.invoke('run_monte_carlo_action', params);
+  }
+
   // --- Real-time Price Polling ---
   subscribeToPriceUpdates(callback: (price: number) => void) {
     this.priceCallbacks.push(callback);
@@ -289,6 +582,11 @@ export class TradingService {
     return this.invoke('admin_list_users_overview', {});
   }
 
+  // Without an account id, every active trading account on the bridge is reconciled
+  async adminReconcilePositions(tradingAccountId?: string) {
+    return this.invoke('admin_reconcile_positions', { tradingAccountId });
+  }
+
   // --- Generic Supabase Function Invoker ---
   private async invoke(action: string, data: any) {
     try {
@@ -266,6 +266,7 @@ export interface Database {
           close_price: number;
           volume: number;
           timeframe: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+          aggregated_from: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | null;
           created_at: string;
         };
         Insert: {
@@ -278,6 +279,7 @@ export interface Database {
           close_price: number;
           volume?: number;
           timeframe?: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+          aggregated_from?: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | null;
           created_at?: string;
         };
         Update: {
@@ -295,7 +297,7 @@ export interface Database {
           trading_account_id: string;
           session_start: string;
           session_end: string | null;
-          status: 'active' | 'stopped' | 'error';
+          status: 'active' | 'paused_drawdown' | 'stopped' | 'error';
           risk_level: 'conservative' | 'medium' | 'risky';
           total_trades: number;
           winning_trades: number;
@@ -303,6 +305,7 @@ export interface Database {
           total_profit: number;
           max_drawdown: number;
           settings: any;
+          mode: 'live' | 'replay';
           created_at: string;
         };
         Insert: {
@@ -311,7 +314,7 @@ export interface Database {
           trading_account_id: string;
           session_start?: string;
           session_end?: string | null;
-          status?: 'active' | 'stopped' | 'error';
+          status?: 'active' | 'paused_drawdown' | 'stopped' | 'error';
           risk_level: 'conservative' | 'medium' | 'risky';
           total_trades?: number;
           winning_trades?: number;
@@ -319,11 +322,12 @@ export interface Database {
           total_profit?: number;
           max_drawdown?: number;
           settings?: any;
+          mode?: 'live' | 'replay';
           created_at?: string;
         };
         Update: {
           session_end?: string | null;
-          status?: 'active' | 'stopped' | 'error';
+          status?: 'active' | 'paused_drawdown' | 'stopped' | 'error';
           total_trades?: number;
           winning_trades?: number;
           losing_trades?: number;
@@ -0,0 +1,68 @@
+import {
+  crypto as webCrypto, // Renamed to avoid conflict with Deno.crypto
+} from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { decode as base64Decode, encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+// Encryption of trading account passwords, shared by the trading-engine edge function (which stores
+// them) and the MetaTrader bridge provider (which logs in with them). AES-GCM with the 32-byte key
+// in the TRADING_ACCOUNT_ENC_KEY secret.
+export const VAULT_SECRET_KEY_NAME = "TRADING_ACCOUNT_ENC_KEY"; // Name of the secret in Supabase Vault
+
+async function getKeyFromVault(): Promise<CryptoKey> {
+  const keyMaterialBase64 = Deno.env.get(VAULT_SECRET_KEY_NAME);
+  if (!keyMaterialBase64) {
+    throw new Error(`Vault secret ${VAULT_SECRET_KEY_NAME} not found. Please set it in Supabase Vault (e.g., a 32-byte base64 encoded string).`);
+  }
+  try {
+    const keyMaterial = base64Decode(keyMaterialBase64);
+    if (keyMaterial.byteLength !== 32) { // Ensure it's 256-bit
+        throw new Error("Vault encryption key must be 32 bytes (256-bit) long when base64 decoded.");
+    }
+    return await webCrypto.subtle.importKey(
+      "raw",
+      keyMaterial,
+      { name: "AES-GCM" },
+      false, // not extractable
+      ["encrypt", "decrypt"]
+    );
+  } catch (e) {
+    console.error("Error importing key from vault:", e.message);
+    throw new Error("Failed to import encryption key. Ensure it's a valid base64 encoded 32-byte key.");
+  }
+}
+
+export async function encryptPassword(password: string): Promise<string> {
+  const key = await getKeyFromVault();
+  const iv = webCrypto.getRandomValues(new Uint8Array(12)); // AES-GCM recommended IV size is 12 bytes
+  const encodedPassword = new TextEncoder().encode(password);
+
+  const encryptedData = await webCrypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv },
+    key,
+    encodedPassword
+  );
+
+  // Combine IV and ciphertext, then base64 encode for storage
+  // Format: base64(iv):base64(ciphertext)
+  const ivBase64 = base64Encode(iv);
+  const encryptedBase64 = base64Encode(new Uint8Array(encryptedData));
+  return `${ivBase64}:${encryptedBase64}`;
+}
+
+export async function decryptPassword(encryptedPasswordWithIv: string): Promise<string> {
+  const key = await getKeyFromVault();
+  const parts = encryptedPasswordWithIv.split(':');
+  if (parts.length !== 2) {
+    throw new Error("Invalid encrypted password format. Expected 'iv:ciphertext'.");
+  }
+  const iv = base64Decode(parts[0]);
+  const encryptedData = base64Decode(parts[1]);
+
+  const decryptedData = await webCrypto.subtle.decrypt(
+    { name: "AES-GCM", iv: iv },
+    key,
+    encryptedData
+  );
+
+  return new TextDecoder().decode(decryptedData);
+}
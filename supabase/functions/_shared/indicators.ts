@@ -0,0 +1,553 @@
+// Technical indicators shared by the trading-engine edge function and the browser TradingEngine.
+// No runtime-specific imports, so Deno and Vite can both load this file as-is.
+//
+// Series functions take bars (or values) oldest first and return one entry per bar, null until the
+// indicator has warmed up. Every indicator only looks backwards, so series[i] is exactly what the
+// indicator reports on bars.slice(0, i + 1): a backtest can compute each series once per run and
+// read it at the signal candle instead of recomputing over every prefix.
+
+export interface PriceBar {
+  open_price?: number;
+  high_price: number;
+  low_price: number;
+  close_price: number;
+  volume?: number | null;
+  timestamp?: string;
+}
+
+export type IndicatorSeries = (number | null)[];
+
+export interface BandValue {
+  upper: number | null;
+  middle: number | null;
+  lower: number | null;
+}
+
+export interface ADXValues {
+  pdi: IndicatorSeries; // Positive Directional Indicator (+DI)
+  ndi: IndicatorSeries; // Negative Directional Indicator (-DI)
+  adx: IndicatorSeries; // Average Directional Index
+}
+
+export interface MACDValues {
+  macd: IndicatorSeries;      // Fast EMA - slow EMA
+  signal: IndicatorSeries;    // EMA of the MACD line
+  histogram: IndicatorSeries; // MACD - signal
+}
+
+export interface StochasticValues {
+  k: IndicatorSeries; // %K: close within the high/low range of the last kPeriod bars, 0-100
+  d: IndicatorSeries; // %D: SMA of %K
+}
+
+export interface SuperTrendValues {
+  value: IndicatorSeries;            // Active band: the trailing stop of the current trend
+  direction: (1 | -1 | null)[];      // 1 = uptrend (band below price), -1 = downtrend
+}
+
+export function closes(bars: readonly PriceBar[]): number[] {
+  return bars.map(bar => bar.close_price);
+}
+
+// --- Incremental Calculation ---
+// The recursive indicators are written once as a stepper (state + one input -> next state) and both
+// the series functions and the streaming calculators run it, so the two can't drift apart.
+interface IndicatorStepper<TState, TInput, TOutput> {
+  initial: TState;
+  next: (state: TState, input: TInput) => TState;
+  output: (state: TState) => TOutput | null;
+}
+
+function runSeries<TState, TInput, TOutput>(
+  stepper: IndicatorStepper<TState, TInput, TOutput>,
+  inputs: readonly TInput[]
+): (TOutput | null)[] {
+  let state = stepper.initial;
+  return inputs.map(input => {
+    state = stepper.next(state, input);
+    return stepper.output(state);
+  });
+}
+
+// Streaming form for live feeds. push() commits a closed bar; preview() evaluates the still-forming
+// bar at its latest tick without committing it, so each tick costs one step instead of a recompute.
+export interface StreamingIndicator<TInput, TOutput> {
+  push: (input: TInput) => TOutput | null;
+  preview: (input: TInput) => TOutput | null;
+  readonly value: TOutput | null; // Output after the last committed bar
+}
+
+function createStream<TState, TInput, TOutput>(
+  stepper: IndicatorStepper<TState, TInput, TOutput>
+): StreamingIndicator<TInput, TOutput> {
+  let state = stepper.initial;
+  return {
+    push: input => {
+      state = stepper.next(state, input);
+      return stepper.output(state);
+    },
+    preview: input => stepper.output(stepper.next(state, input)),
+    get value() {
+      return stepper.output(state);
+    },
+  };
+}
+
+interface WindowState {
+  window: number[]; // Last `period` inputs, oldest first
+}
+
+function windowStepper<TOutput>(period: number, output: (window: number[]) => TOutput): IndicatorStepper<WindowState, number, TOutput> {
+  return {
+    initial: { window: [] },
+    next: (state, value) => ({ window: [...state.window, value].slice(-period) }),
+    output: state => (state.window.length === period ? output(state.window) : null),
+  };
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function smaStepper(period: number) {
+  return windowStepper(period, mean);
+}
+
+function bollingerStepper(period: number, stdDevMultiplier: number) {
+  return windowStepper<BandValue>(period, window => {
+    const middle = mean(window);
+    const stdDev = Math.sqrt(window.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period);
+    return { middle, upper: middle + stdDev * stdDevMultiplier, lower: middle - stdDev * stdDevMultiplier };
+  });
+}
+
+interface EMAState {
+  count: number;
+  seedSum: number;       // Sum of the first `period` inputs; their SMA seeds the EMA
+  value: number | null;
+}
+
+function emaStepper(period: number): IndicatorStepper<EMAState, number, number> {
+  const alpha = 2 / (period + 1);
+  return {
+    initial: { count: 0, seedSum: 0, value: null },
+    next: (state, input) => {
+      const count = state.count + 1;
+      if (count < period) return { count, seedSum: state.seedSum + input, value: null };
+      if (count === period) return { count, seedSum: state.seedSum + input, value: (state.seedSum + input) / period };
+      return { count, seedSum: state.seedSum, value: (input - (state.value as number)) * alpha + (state.value as number) };
+    },
+    output: state => state.value,
+  };
+}
+
+// Wilder's RSI: the first value averages `period` changes (period + 1 closes), later ones smooth.
+interface RSIState {
+  prevClose: number | null;
+  changes: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+function rsiStepper(period: number): IndicatorStepper<RSIState, number, number> {
+  return {
+    initial: { prevClose: null, changes: 0, avgGain: 0, avgLoss: 0 },
+    next: (state, close) => {
+      if (state.prevClose === null) return { ...state, prevClose: close };
+      const change = close - state.prevClose;
+      const gain = change > 0 ? change : 0;
+      const loss = change < 0 ? -change : 0;
+      const changes = state.changes + 1;
+      if (changes <= period) {
+        // Accumulate a running simple average until the first full period
+        return {
+          prevClose: close,
+          changes,
+          avgGain: state.avgGain + (gain - state.avgGain) / changes,
+          avgLoss: state.avgLoss + (loss - state.avgLoss) / changes,
+        };
+      }
+      return {
+        prevClose: close,
+        changes,
+        avgGain: (state.avgGain * (period - 1) + gain) / period,
+        avgLoss: (state.avgLoss * (period - 1) + loss) / period,
+      };
+    },
+    output: state => {
+      if (state.changes < period) return null;
+      if (state.avgLoss === 0) return 100; // No losses in the window
+      return 100 - 100 / (1 + state.avgGain / state.avgLoss);
+    },
+  };
+}
+
+// Wilder's ATR: the first value (at bar `period`) averages the true ranges of bars 1..period.
+interface ATRState {
+  prevClose: number | null;
+  ranges: number;
+  value: number;
+}
+
+function atrStepper(period: number): IndicatorStepper<ATRState, PriceBar, number> {
+  return {
+    initial: { prevClose: null, ranges: 0, value: 0 },
+    next: (state, bar) => {
+      if (state.prevClose === null) return { ...state, prevClose: bar.close_price };
+      const tr = trueRangeOf(bar, state.prevClose);
+      const ranges = state.ranges + 1;
+      const value = ranges <= period
+        ? state.value + (tr - state.value) / ranges
+        : (state.value * (period - 1) + tr) / period;
+      return { prevClose: bar.close_price, ranges, value };
+    },
+    output: state => (state.ranges < period ? null : state.value),
+  };
+}
+
+interface MACDState {
+  fast: EMAState;
+  slow: EMAState;
+  signal: EMAState;
+}
+
+interface MACDValue {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+function macdStepper(fastPeriod: number, slowPeriod: number, signalPeriod: number): IndicatorStepper<MACDState, number, MACDValue> {
+  const fast = emaStepper(fastPeriod);
+  const slow = emaStepper(slowPeriod);
+  const signal = emaStepper(signalPeriod);
+  return {
+    initial: { fast: fast.initial, slow: slow.initial, signal: signal.initial },
+    next: (state, close) => {
+      const nextFast = fast.next(state.fast, close);
+      const nextSlow = slow.next(state.slow, close);
+      const line = nextFast.value !== null && nextSlow.value !== null ? nextFast.value - nextSlow.value : null;
+      // The signal EMA starts with the first defined MACD value
+      return { fast: nextFast, slow: nextSlow, signal: line === null ? state.signal : signal.next(state.signal, line) };
+    },
+    output: state => {
+      if (state.fast.value === null || state.slow.value === null) return null;
+      const line = state.fast.value - state.slow.value;
+      const signalValue = state.signal.value;
+      return { macd: line, signal: signalValue, histogram: signalValue === null ? null : line - signalValue };
+    },
+  };
+}
+
+export const createSMAStream = (period: number): StreamingIndicator<number, number> => createStream(smaStepper(period));
+export const createEMAStream = (period: number): StreamingIndicator<number, number> => createStream(emaStepper(period));
+export const createRSIStream = (period: number): StreamingIndicator<number, number> => createStream(rsiStepper(period));
+export const createATRStream = (period: number): StreamingIndicator<PriceBar, number> => createStream(atrStepper(period));
+export const createBollingerBandsStream = (period: number, stdDevMultiplier: number): StreamingIndicator<number, BandValue> =>
+  createStream(bollingerStepper(period, stdDevMultiplier));
+export const createMACDStream = (fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): StreamingIndicator<number, MACDValue> =>
+  createStream(macdStepper(fastPeriod, slowPeriod, signalPeriod));
+// --- End Incremental Calculation ---
+
+// --- Series Indicators ---
+export function sma(values: readonly number[], period: number): IndicatorSeries {
+  return runSeries(smaStepper(period), values);
+}
+
+export function ema(values: readonly number[], period: number): IndicatorSeries {
+  return runSeries(emaStepper(period), values);
+}
+
+export function bollingerBands(values: readonly number[], period: number, stdDevMultiplier: number): BandValue[] {
+  return runSeries(bollingerStepper(period, stdDevMultiplier), values)
+    .map(band => band ?? { middle: null, upper: null, lower: null });
+}
+
+// (upper - lower) / middle; used to spot volatility squeezes
+export function bollingerBandWidth(bands: readonly BandValue[]): IndicatorSeries {
+  return bands.map(band =>
+    band.upper !== null && band.lower !== null && band.middle !== null && band.middle !== 0
+      ? (band.upper - band.lower) / band.middle
+      : null
+  );
+}
+
+export function rsi(values: readonly number[], period: number): IndicatorSeries {
+  return runSeries(rsiStepper(period), values);
+}
+
+export function macd(values: readonly number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MACDValues {
+  const points = runSeries(macdStepper(fastPeriod, slowPeriod, signalPeriod), values);
+  return {
+    macd: points.map(point => point?.macd ?? null),
+    signal: points.map(point => point?.signal ?? null),
+    histogram: points.map(point => point?.histogram ?? null),
+  };
+}
+
+function trueRangeOf(bar: PriceBar, prevClose: number): number {
+  return Math.max(
+    bar.high_price - bar.low_price,
+    Math.abs(bar.high_price - prevClose),
+    Math.abs(bar.low_price - prevClose)
+  );
+}
+
+// True range needs the previous close, so the first bar has none
+export function trueRange(bars: readonly PriceBar[]): IndicatorSeries {
+  return bars.map((bar, i) => (i === 0 ? null : trueRangeOf(bar, bars[i - 1].close_price)));
+}
+
+export function atr(bars: readonly PriceBar[], period: number): IndicatorSeries {
+  return runSeries(atrStepper(period), bars);
+}
+
+// Wilder's smoothing (an EMA with alpha = 1/period), seeded with the average of the first `period`
+// consecutive non-null values. A null input carries the previous value forward.
+export function wildersSmoothing(values: readonly (number | null)[], period: number): IndicatorSeries {
+  const smoothed: IndicatorSeries = new Array(values.length).fill(null);
+  let firstValidIndex = -1;
+  for (let i = 0; i <= values.length - period && firstValidIndex === -1; i++) {
+    const window = values.slice(i, i + period);
+    if (window.every(value => value !== null)) {
+      firstValidIndex = i + period - 1;
+      smoothed[firstValidIndex] = mean(window as number[]);
+    }
+  }
+  if (firstValidIndex === -1) return smoothed;
+
+  for (let i = firstValidIndex + 1; i < values.length; i++) {
+    const value = values[i];
+    smoothed[i] = value === null
+      ? smoothed[i - 1]
+      : ((smoothed[i - 1] as number) * (period - 1) + value) / period;
+  }
+  return smoothed;
+}
+
+export function adx(bars: readonly PriceBar[], period = 14): ADXValues {
+  const results: ADXValues = {
+    pdi: new Array(bars.length).fill(null),
+    ndi: new Array(bars.length).fill(null),
+    adx: new Array(bars.length).fill(null),
+  };
+  if (bars.length < period + 1) return results; // Need at least period+1 bars for the first value
+
+  const pDM: IndicatorSeries = [null];
+  const nDM: IndicatorSeries = [null];
+  for (let i = 1; i < bars.length; i++) {
+    const upMove = bars[i].high_price - bars[i - 1].high_price;
+    const downMove = bars[i - 1].low_price - bars[i].low_price;
+    pDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    nDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  const smoothedTR = wildersSmoothing(trueRange(bars), period);
+  const smoothedPDM = wildersSmoothing(pDM, period);
+  const smoothedNDM = wildersSmoothing(nDM, period);
+
+  const dxValues: IndicatorSeries = new Array(bars.length).fill(null);
+  for (let i = 0; i < bars.length; i++) {
+    const sTR = smoothedTR[i];
+    const sPDM = smoothedPDM[i];
+    const sNDM = smoothedNDM[i];
+    if (!sTR || sTR <= 0 || sPDM === null || sNDM === null) continue;
+    const pdi = (sPDM / sTR) * 100;
+    const ndi = (sNDM / sTR) * 100;
+    results.pdi[i] = pdi;
+    results.ndi[i] = ndi;
+    dxValues[i] = pdi + ndi > 0 ? (Math.abs(pdi - ndi) / (pdi + ndi)) * 100 : 0;
+  }
+
+  results.adx = wildersSmoothing(dxValues, period);
+  return results;
+}
+
+// Applies `compute` to the defined tail of `series` (from its first non-null value onwards)
+function fromFirstValue(series: IndicatorSeries, compute: (values: number[]) => IndicatorSeries): IndicatorSeries {
+  const start = series.findIndex(value => value !== null);
+  if (start === -1) return series.map(() => null);
+  return [...new Array(start).fill(null), ...compute(series.slice(start) as number[])];
+}
+
+export function stochastic(bars: readonly PriceBar[], kPeriod = 14, dPeriod = 3): StochasticValues {
+  const { upper, lower } = splitBands(donchianChannels(bars, kPeriod));
+  const k = bars.map((bar, i) => {
+    const highest = upper[i];
+    const lowest = lower[i];
+    if (highest === null || lowest === null) return null;
+    return highest === lowest ? 50 : ((bar.close_price - lowest) / (highest - lowest)) * 100;
+  });
+  return { k, d: fromFirstValue(k, values => sma(values, dPeriod)) };
+}
+
+// EMA of closes ± a multiple of ATR
+export function keltnerChannels(bars: readonly PriceBar[], emaPeriod = 20, atrPeriod = 10, atrMultiplier = 2): BandValue[] {
+  const middle = ema(closes(bars), emaPeriod);
+  const ranges = atr(bars, atrPeriod);
+  return middle.map((mid, i) => {
+    const range = ranges[i];
+    if (mid === null || range === null) return { middle: null, upper: null, lower: null };
+    return { middle: mid, upper: mid + range * atrMultiplier, lower: mid - range * atrMultiplier };
+  });
+}
+
+// Highest high / lowest low of the last `period` bars including the current one
+export function donchianChannels(bars: readonly PriceBar[], period: number): BandValue[] {
+  return bars.map((_, i) => {
+    if (i < period - 1) return { middle: null, upper: null, lower: null };
+    let upper = -Infinity;
+    let lower = Infinity;
+    for (let j = i - period + 1; j <= i; j++) {
+      upper = Math.max(upper, bars[j].high_price);
+      lower = Math.min(lower, bars[j].low_price);
+    }
+    return { upper, lower, middle: (upper + lower) / 2 };
+  });
+}
+
+function splitBands(bands: readonly BandValue[]) {
+  return {
+    upper: bands.map(band => band.upper),
+    middle: bands.map(band => band.middle),
+    lower: bands.map(band => band.lower),
+  };
+}
+
+// Volume-weighted typical price, anchored at each UTC day. Spot gold feeds often carry no volume;
+// bars without it weigh 1, which makes this the day's average typical price.
+export function vwap(bars: readonly PriceBar[]): IndicatorSeries {
+  let day = '';
+  let weightedSum = 0;
+  let volumeSum = 0;
+  return bars.map(bar => {
+    const barDay = bar.timestamp ? new Date(bar.timestamp).toISOString().slice(0, 10) : '';
+    if (barDay !== day) {
+      day = barDay;
+      weightedSum = 0;
+      volumeSum = 0;
+    }
+    const volume = bar.volume && bar.volume > 0 ? bar.volume : 1;
+    weightedSum += ((bar.high_price + bar.low_price + bar.close_price) / 3) * volume;
+    volumeSum += volume;
+    return weightedSum / volumeSum;
+  });
+}
+
+// Bands at the bar midpoint ± multiplier * ATR that only tighten while the trend lasts; the trend
+// flips when a close crosses the active band.
+export function superTrend(bars: readonly PriceBar[], period = 10, multiplier = 3): SuperTrendValues {
+  const ranges = atr(bars, period);
+  const value: IndicatorSeries = new Array(bars.length).fill(null);
+  const direction: (1 | -1 | null)[] = new Array(bars.length).fill(null);
+  let upperBand = 0;
+  let lowerBand = 0;
+  let trend: 1 | -1 | null = null;
+
+  for (let i = 0; i < bars.length; i++) {
+    const range = ranges[i];
+    if (range === null) continue;
+    const bar = bars[i];
+    const mid = (bar.high_price + bar.low_price) / 2;
+    const basicUpper = mid + multiplier * range;
+    const basicLower = mid - multiplier * range;
+    const prevClose = bars[i - 1].close_price; // ATR is null on bar 0
+
+    if (trend === null) {
+      upperBand = basicUpper;
+      lowerBand = basicLower;
+      trend = bar.close_price >= mid ? 1 : -1;
+    } else {
+      upperBand = basicUpper < upperBand || prevClose > upperBand ? basicUpper : upperBand;
+      lowerBand = basicLower > lowerBand || prevClose < lowerBand ? basicLower : lowerBand;
+      if (trend === 1 && bar.close_price < lowerBand) trend = -1;
+      else if (trend === -1 && bar.close_price > upperBand) trend = 1;
+    }
+    direction[i] = trend;
+    value[i] = trend === 1 ? lowerBand : upperBand;
+  }
+  return { value, direction };
+}
+// --- End Series Indicators ---
+
+// --- Per-Run Cache ---
+// Memoizes each series by indicator and parameters over one bar array, so a backtest (or an optimizer
+// sweep over the same bars) computes e.g. RSI(14) once instead of once per candle. The bars must not
+// be mutated after the cache is created.
+export class IndicatorCache {
+  private readonly memo = new Map<string, unknown>();
+
+  constructor(readonly bars: readonly PriceBar[]) {}
+
+  private memoize<T>(key: string, compute: () => T): T {
+    if (!this.memo.has(key)) this.memo.set(key, compute());
+    return this.memo.get(key) as T;
+  }
+
+  get closes(): number[] {
+    return this.memoize('closes', () => closes(this.bars));
+  }
+
+  sma(period: number) {
+    return this.memoize(`sma:${period}`, () => sma(this.closes, period));
+  }
+
+  ema(period: number) {
+    return this.memoize(`ema:${period}`, () => ema(this.closes, period));
+  }
+
+  bollingerBands(period: number, stdDevMultiplier: number) {
+    return this.memoize(`bb:${period}:${stdDevMultiplier}`, () => bollingerBands(this.closes, period, stdDevMultiplier));
+  }
+
+  bollingerBandWidth(period: number, stdDevMultiplier: number) {
+    return this.memoize(`bbw:${period}:${stdDevMultiplier}`, () => bollingerBandWidth(this.bollingerBands(period, stdDevMultiplier)));
+  }
+
+  rsi(period: number) {
+    return this.memoize(`rsi:${period}`, () => rsi(this.closes, period));
+  }
+
+  macd(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    return this.memoize(`macd:${fastPeriod}:${slowPeriod}:${signalPeriod}`, () => macd(this.closes, fastPeriod, slowPeriod, signalPeriod));
+  }
+
+  atr(period: number) {
+    return this.memoize(`atr:${period}`, () => atr(this.bars, period));
+  }
+
+  adx(period = 14) {
+    return this.memoize(`adx:${period}`, () => adx(this.bars, period));
+  }
+
+  stochastic(kPeriod = 14, dPeriod = 3) {
+    return this.memoize(`stoch:${kPeriod}:${dPeriod}`, () => stochastic(this.bars, kPeriod, dPeriod));
+  }
+
+  keltnerChannels(emaPeriod = 20, atrPeriod = 10, atrMultiplier = 2) {
+    return this.memoize(`kc:${emaPeriod}:${atrPeriod}:${atrMultiplier}`, () => keltnerChannels(this.bars, emaPeriod, atrPeriod, atrMultiplier));
+  }
+
+  donchianChannels(period: number) {
+    return this.memoize(`dc:${period}`, () => donchianChannels(this.bars, period));
+  }
+
+  vwap() {
+    return this.memoize('vwap', () => vwap(this.bars));
+  }
+
+  superTrend(period = 10, multiplier = 3) {
+    return this.memoize(`st:${period}:${multiplier}`, () => superTrend(this.bars, period, multiplier));
+  }
+}
+
+const cachesByBars = new WeakMap<readonly PriceBar[], IndicatorCache>();
+
+// The cache for `bars`, created on first use; every caller handed the same array shares it.
+export function indicatorsFor(bars: readonly PriceBar[]): IndicatorCache {
+  let cache = cachesByBars.get(bars);
+  if (!cache) {
+    cache = new IndicatorCache(bars);
+    cachesByBars.set(bars, cache);
+  }
+  return cache;
+}
+// --- End Per-Run Cache ---
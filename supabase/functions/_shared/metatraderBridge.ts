@@ -0,0 +1,395 @@
+// Trade execution and market data through the MetaTrader bridge: a small HTTP service beside an MT4/MT5
+// terminal. The trading engine uses it for live accounts; tools/mt-bridge-mock runs against it in tests.
+
+import { decryptPassword } from './credentials.ts';
+import { parseUtcTimestamp, retryAsyncFunction } from './utils.ts';
+import type {
+  AccountSummary,
+  CancelOrderParams,
+  CancelOrderResult,
+  CloseOrderParams,
+  CloseOrderResult,
+  ExecuteOrderParams,
+  ExecuteOrderResult,
+  IMarketDataProvider,
+  ITradeExecutionProvider,
+  MarketQuote,
+  ModifyOrderParams,
+  ModifyOrderResult,
+  OhlcBar,
+  OpenPosition,
+  PendingOrder,
+  PriceTimeframe,
+  ServerTime,
+} from './providers.ts';
+
+const METATRADER_TIMEFRAMES: Record<PriceTimeframe, string> = {
+  '1m': 'M1', '5m': 'M5', '15m': 'M15', '30m': 'M30', '1h': 'H1', '4h': 'H4', '1d': 'D1',
+};
+
+// A trading_accounts row the bridge logs into. The password stays encrypted until a session is opened.
+export interface MetaTraderAccount {
+  tradingAccountId: string;
+  platform: 'MT4' | 'MT5';
+  serverName: string;
+  loginId: string;
+  passwordEncrypted: string;
+}
+
+interface BridgeSession {
+  token: string;
+  expiresAt: number;
+}
+
+// Bridge session tokens per trading_account_id, reused by every provider for that account while
+// this function instance lives
+export const bridgeSessions = new Map<string, BridgeSession>();
+const DEFAULT_BRIDGE_SESSION_TTL_MS = 30 * 60 * 1000; // When the bridge doesn't say when a session expires
+const BRIDGE_SESSION_RENEW_MARGIN_MS = 60 * 1000;
+
+// One bar of GET /market/bars as the bridge sends it; times may come without a zone
+interface BridgeBar {
+  time: string | number;
+  open: number | string;
+  high: number | string;
+  low: number | string;
+  close: number | string;
+  volume?: number | string | null;
+}
+
+export class MetaTraderLoginError extends Error {}
+export class MetaTraderNotFoundError extends Error {} // A 404 answer; asking again won't change it
+
+export interface BrokerClosedDeal {
+  closePrice: number;
+  closeTime: string;
+  profit: number; // Net of commission and swap, as the broker books it
+  commission: number;
+  swap: number;
+  reason?: string; // e.g. 'SL', 'TP', 'CLIENT'
+}
+
+// Identifies a session's orders at the broker (the MT magic number): the last 7 digits of its id
+export function sessionMagicNumber(sessionId?: string): number {
+  return sessionId ? parseInt(sessionId.replace(/\D/g, '').slice(-7)) || 0 : 0;
+}
+
+// Talks to the EA bridge over HTTP, authenticated by the global MT_BRIDGE_API_KEY. Given an account,
+// it logs into it first (assuming API contract: POST /session/open { platform, server, login, password }
+// -> { sessionToken, expiresAt? }) and identifies every request by the X-MT-Platform, X-MT-Server,
+// X-MT-Login and X-MT-Session headers, so one bridge can serve many MT4/MT5 accounts. A 401 means
+// the bridge dropped the session; it is reopened once. Without an account, requests go to the
+// terminal the bridge itself is attached to.
+export class MetaTraderBridgeProvider implements ITradeExecutionProvider, IMarketDataProvider {
+  readonly source = 'METATRADER' as const;
+  private bridgeUrl: string;
+  private bridgeApiKey: string;
+  private account?: MetaTraderAccount;
+
+  constructor(bridgeUrl: string, bridgeApiKey: string, account?: MetaTraderAccount) {
+    if (!bridgeUrl || !bridgeApiKey) {
+      throw new Error("MetaTraderBridgeProvider: bridgeUrl and bridgeApiKey are required.");
+    }
+    this.bridgeUrl = bridgeUrl.endsWith('/') ? bridgeUrl.slice(0, -1) : bridgeUrl;
+    this.bridgeApiKey = bridgeApiKey;
+    this.account = account;
+  }
+
+  private async openSession(account: MetaTraderAccount): Promise<BridgeSession> {
+    const cached = bridgeSessions.get(account.tradingAccountId);
+    if (cached && cached.expiresAt - BRIDGE_SESSION_RENEW_MARGIN_MS > Date.now()) return cached;
+
+    const password = await decryptPassword(account.passwordEncrypted);
+    const response = await fetch(`${this.bridgeUrl}/session/open`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-MT-Bridge-API-Key': this.bridgeApiKey },
+      body: JSON.stringify({ platform: account.platform, server: account.serverName, login: account.loginId, password }),
+    });
+    const data = await response.json().catch(() => ({}));
+    const failure = `Bridge login failed for ${account.platform} account ${account.loginId}@${account.serverName}`;
+    // Rejected credentials aren't retried, so a wrong password can't lock the account at the broker
+    if (response.status === 401 || response.status === 403) throw new MetaTraderLoginError(`${failure}: ${data.error || response.statusText}`);
+    if (!response.ok || !data.sessionToken) throw new Error(`${failure}: ${data.error || response.status}`);
+
+    const session = {
+      token: String(data.sessionToken),
+      expiresAt: data.expiresAt ? parseUtcTimestamp(String(data.expiresAt)).getTime() : Date.now() + DEFAULT_BRIDGE_SESSION_TTL_MS,
+    };
+    bridgeSessions.set(account.tradingAccountId, session);
+    return session;
+  }
+
+  private async requestHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-MT-Bridge-API-Key': this.bridgeApiKey,
+    };
+    if (this.account) {
+      const session = await this.openSession(this.account);
+      headers['X-MT-Platform'] = this.account.platform;
+      headers['X-MT-Server'] = this.account.serverName;
+      headers['X-MT-Login'] = this.account.loginId;
+      headers['X-MT-Session'] = session.token;
+    }
+    return headers;
+  }
+
+  private async makeRequest(endpoint: string, method: string, body?: any): Promise<any> {
+    const send = async () => fetch(`${this.bridgeUrl}${endpoint}`, {
+      method,
+      headers: await this.requestHeaders(),
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const fetchFn = async () => {
+      let response = await send();
+      if (response.status === 401 && this.account) {
+        bridgeSessions.delete(this.account.tradingAccountId);
+        response = await send();
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorData;
+        try {
+            errorData = JSON.parse(errorText);
+        } catch {
+            errorData = { error: "Failed to parse error response from bridge", details: errorText };
+        }
+        // Log the error before throwing to ensure it's captured by retry logic's console output
+        console.error(`MetaTraderBridgeProvider Error (Attempt): ${response.status} ${response.statusText} for ${method} ${endpoint}`, errorData);
+        const message = `Bridge API Error (${method} ${endpoint}): ${response.status} - ${errorData.error || response.statusText}`;
+        throw response.status === 404 ? new MetaTraderNotFoundError(message) : new Error(message);
+      }
+
+      if (response.status === 202 || response.status === 204) {
+          return { success: true, message: `Request to ${endpoint} accepted.` };
+      }
+      return await response.json();
+    };
+
+    try {
+      // Up to 2 attempts in all, 3s apart, for bridge requests
+      return await retryAsyncFunction(fetchFn, 2, 3000, `MetaTraderBridgeProvider.makeRequest(${method} ${endpoint})`, error => !(error instanceof MetaTraderLoginError || error instanceof MetaTraderNotFoundError));
+    } catch (error) {
+      // This error is after all retries have failed
+      console.error(`All retries failed for MetaTraderBridgeProvider.makeRequest (${method} ${endpoint}):`, error.message);
+      throw error; // Re-throw the final error to be handled by the calling method
+    }
+  }
+
+  async executeOrder(params: ExecuteOrderParams): Promise<ExecuteOrderResult> {
+    try {
+      const requestBody = {
+        symbol: params.symbol,
+        type: params.tradeType,
+        lots: params.lotSize,
+        price: params.openPrice,
+        stopLossPrice: params.stopLossPrice,
+        takeProfitPrice: params.takeProfitPrice,
+        magicNumber: sessionMagicNumber(params.botSessionId),
+        comment: `BotTrade_Sess${params.botSessionId || 'N/A'}`,
+        // Assuming API contract: pending orders rest at `price` and answer with { pending: true }
+        orderType: params.orderType || 'MARKET',
+        stopLimitPrice: params.stopLimitPrice,
+        expiresAt: params.expiresAt,
+      };
+      const responseData = await this.makeRequest('/order/execute', 'POST', requestBody);
+      if (responseData.success && responseData.ticket) {
+        const pending = responseData.pending ?? (params.orderType !== undefined && params.orderType !== 'MARKET');
+        return { success: true, tradeId: responseData.ticket.toString(), ticketId: responseData.ticket.toString(), pending };
+      } else {
+        return { success: false, error: responseData.error || "Failed to execute order via bridge." };
+      }
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async closeOrder(params: CloseOrderParams): Promise<CloseOrderResult> {
+    try {
+      const responseData = await this.makeRequest('/order/close', 'POST', {
+        ticket: parseInt(params.ticketId),
+        lots: params.lots,
+      });
+      if (responseData.success) {
+        return { success: true, ticketId: params.ticketId, closePrice: responseData.closePrice, profit: responseData.profit };
+      } else {
+        return { success: false, ticketId: params.ticketId, error: responseData.error || "Failed to close order via bridge." };
+      }
+    } catch (error) {
+      return { success: false, ticketId: params.ticketId, error: error.message };
+    }
+  }
+
+  async modifyOrder(params: ModifyOrderParams): Promise<ModifyOrderResult> {
+    try {
+      // Assuming API contract: POST /order/modify
+      const responseData = await this.makeRequest('/order/modify', 'POST', {
+        ticket: parseInt(params.ticketId),
+        stopLossPrice: params.stopLossPrice,
+        takeProfitPrice: params.takeProfitPrice,
+        entryPrice: params.entryPrice,
+        stopLimitPrice: params.stopLimitPrice,
+        expiresAt: params.expiresAt,
+      });
+      if (responseData.success) {
+        return {
+          success: true,
+          ticketId: params.ticketId,
+          stopLossPrice: responseData.stopLossPrice ?? params.stopLossPrice,
+          takeProfitPrice: responseData.takeProfitPrice ?? params.takeProfitPrice,
+        };
+      } else {
+        return { success: false, ticketId: params.ticketId, error: responseData.error || "Failed to modify order via bridge." };
+      }
+    } catch (error) {
+      return { success: false, ticketId: params.ticketId, error: error.message };
+    }
+  }
+
+  async cancelOrder(params: CancelOrderParams): Promise<CancelOrderResult> {
+    try {
+      // Assuming API contract: POST /order/cancel { ticket } -> { success }
+      const responseData = await this.makeRequest('/order/cancel', 'POST', { ticket: parseInt(params.ticketId) });
+      if (responseData.success) {
+        return { success: true, ticketId: params.ticketId };
+      } else {
+        return { success: false, ticketId: params.ticketId, error: responseData.error || "Failed to cancel order via bridge." };
+      }
+    } catch (error) {
+      return { success: false, ticketId: params.ticketId, error: error.message };
+    }
+  }
+
+  async getAccountSummary(): Promise<AccountSummary> {
+    try {
+      const data = await this.makeRequest('/account/summary', 'GET');
+      return {
+        balance: data.balance,
+        equity: data.equity,
+        margin: data.margin,
+        freeMargin: data.freeMargin,
+        currency: data.currency,
+      };
+    } catch (error) {
+      return { balance: 0, equity: 0, margin: 0, freeMargin: 0, currency: 'N/A', error: error.message };
+    }
+  }
+
+  async getOpenPositions(): Promise<OpenPosition[]> {
+     try {
+      return await this.fetchOpenPositions();
+    } catch (error) {
+      console.error('MetaTraderBridgeProvider: Error fetching open positions:', error);
+      return [];
+    }
+  }
+
+  // Like getOpenPositions, but a failed request throws instead of looking like an empty account
+  async fetchOpenPositions(): Promise<OpenPosition[]> {
+    const data = await this.makeRequest('/positions/open', 'GET');
+    return (data.positions || []).map((p: any) => ({
+        ticket: p.ticket.toString(),
+        symbol: p.symbol,
+        type: p.type,
+        lots: p.lots,
+        openPrice: p.openPrice,
+        openTime: p.openTime,
+        stopLoss: p.stopLoss,
+        takeProfit: p.takeProfit,
+        currentPrice: p.currentPrice,
+        profit: p.profit,
+        swap: p.swap,
+        comment: p.comment,
+        magicNumber: Number(p.magicNumber) || 0,
+    }));
+  }
+
+  async getPendingOrders(): Promise<PendingOrder[]> {
+    try {
+      return await this.fetchPendingOrders();
+    } catch (error) {
+      console.error('MetaTraderBridgeProvider: Error fetching pending orders:', error);
+      return [];
+    }
+  }
+
+  // Assuming API contract: GET /orders/pending -> { orders: [{ ticket, symbol, type, orderType, lots,
+  // entryPrice, stopLimitPrice, stopLoss, takeProfit, placedAt, expiresAt, triggered, comment, magicNumber }] }.
+  // Throws on a failed request, like fetchOpenPositions.
+  async fetchPendingOrders(): Promise<PendingOrder[]> {
+    const data = await this.makeRequest('/orders/pending', 'GET');
+    return (data.orders || []).map((o: any) => ({
+      ticket: o.ticket.toString(),
+      symbol: o.symbol,
+      type: o.type,
+      orderType: o.orderType,
+      lots: o.lots,
+      entryPrice: o.entryPrice,
+      stopLimitPrice: o.stopLimitPrice ?? undefined,
+      stopLoss: o.stopLoss,
+      takeProfit: o.takeProfit,
+      placedAt: o.placedAt ? parseUtcTimestamp(String(o.placedAt)).toISOString() : new Date().toISOString(),
+      expiresAt: o.expiresAt ? parseUtcTimestamp(String(o.expiresAt)).toISOString() : undefined,
+      triggered: !!o.triggered,
+      comment: o.comment,
+      magicNumber: Number(o.magicNumber) || 0,
+    }));
+  }
+
+  // How a position that is no longer open was closed. Assuming API contract: GET /history/deal?ticket
+  // -> { closePrice, closeTime, profit, commission, swap, reason }, or 404 while the broker hasn't
+  // booked the close yet.
+  async getClosedDeal(ticket: string): Promise<BrokerClosedDeal | null> {
+    let data;
+    try {
+      data = await this.makeRequest(`/history/deal?ticket=${encodeURIComponent(ticket)}`, 'GET');
+    } catch (error) {
+      if (error instanceof MetaTraderNotFoundError) return null;
+      throw error;
+    }
+    if (!data || data.closePrice === undefined || data.closePrice === null) return null;
+    return {
+      closePrice: Number(data.closePrice),
+      closeTime: data.closeTime ? parseUtcTimestamp(String(data.closeTime)).toISOString() : new Date().toISOString(),
+      profit: Number(data.profit) || 0,
+      commission: Number(data.commission) || 0,
+      swap: Number(data.swap) || 0,
+      reason: data.reason || undefined,
+    };
+  }
+
+  async getServerTime(): Promise<ServerTime> {
+    try {
+      const data = await this.makeRequest('/server/time', 'GET');
+      return { time: data.serverTime, error: data.error };
+    } catch (error) {
+      return { time: '', error: error.message };
+    }
+  }
+
+  // Market data straight from the terminal the bridge is attached to. Assuming API contract:
+  // GET /market/quote -> { bid, ask, time } and GET /market/bars -> { bars: [{ time, open, high, low, close, volume }] },
+  // times in UTC.
+  async getQuote(symbol: string): Promise<MarketQuote> {
+    const data = await this.makeRequest(`/market/quote?symbol=${encodeURIComponent(symbol)}`, 'GET');
+    const bid = Number(data.bid);
+    const ask = Number(data.ask);
+    if (!Number.isFinite(bid) || !Number.isFinite(ask)) throw new Error(data.error || `Bridge returned no ${symbol} quote.`);
+    return { symbol, bid, ask, price: (bid + ask) / 2, time: data.time ? parseUtcTimestamp(data.time).toISOString() : new Date().toISOString(), source: this.source };
+  }
+
+  async getBars(symbol: string, timeframe: PriceTimeframe, count: number): Promise<OhlcBar[]> {
+    const data = await this.makeRequest(`/market/bars?symbol=${encodeURIComponent(symbol)}&timeframe=${METATRADER_TIMEFRAMES[timeframe]}&count=${count}`, 'GET');
+    if (!Array.isArray(data.bars)) throw new Error(data.error || `Bridge returned no ${symbol} ${timeframe} bars.`);
+    return data.bars.map((bar: BridgeBar): OhlcBar => ({
+      timestamp: parseUtcTimestamp(String(bar.time)).toISOString(),
+      open_price: Number(bar.open),
+      high_price: Number(bar.high),
+      low_price: Number(bar.low),
+      close_price: Number(bar.close),
+      volume: Number(bar.volume) || 0,
+    })).sort((a: OhlcBar, b: OhlcBar) => a.timestamp.localeCompare(b.timestamp));
+  }
+}
@@ -0,0 +1,183 @@
+// Contracts between the trading engine and what it trades through (ITradeExecutionProvider) or
+// reads prices from (IMarketDataProvider), shared with the providers in this directory.
+
+// Stored bars use these timeframe names; see normalizePriceTimeframe in the trading engine for the
+// other spellings requests use
+export type PriceTimeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+
+// A bar in price_data's columns, as providers return bars and the engine analyzes them
+export interface OhlcBar {
+  timestamp: string; // Bar open, ISO UTC
+  open_price: number;
+  high_price: number;
+  low_price: number;
+  close_price: number;
+  volume?: number | null;
+}
+
+// A price_data row as the engine writes it
+export interface PriceBarRow extends OhlcBar {
+  symbol: string;
+  timeframe: PriceTimeframe;
+  volume: number;
+  aggregated_from: PriceTimeframe | null; // Source timeframe of a bar built by aggregation; null when ingested
+}
+
+// Parameter and Result Types
+
+// MARKET fills at once. The others rest as pending orders at `openPrice`: LIMIT buys below / sells
+// above the market, STOP buys above / sells below it, and STOP_LIMIT places a limit order at
+// `stopLimitPrice` once its stop price trades.
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+
+export interface ExecuteOrderParams {
+  userId: string;
+  tradingAccountId: string;
+  symbol: string;
+  tradeType: 'BUY' | 'SELL';
+  lotSize: number;
+  openPrice: number; // Pending orders: the entry (LIMIT) or trigger (STOP, STOP_LIMIT) price
+  stopLossPrice: number;
+  takeProfitPrice?: number;
+  botSessionId?: string;
+  marketRegime?: string; // Regime ADAPTIVE traded in; stored as trades.market_regime
+  orderType?: OrderType; // MARKET when omitted
+  stopLimitPrice?: number; // STOP_LIMIT only
+  expiresAt?: string; // Pending orders are cancelled if not filled by then; good till cancelled without it
+}
+
+export interface ExecuteOrderResult {
+  success: boolean;
+  tradeId?: string;
+  ticketId?: string;
+  pending?: boolean; // Placed as a pending order rather than filled
+  error?: string;
+}
+
+export interface CloseOrderParams {
+  ticketId: string;
+  lots?: number;
+  reason?: string; // Recorded as trades.close_reason by the simulated provider, e.g. 'Time', 'Partial'
+  price?: number;
+  slippage?: number;
+  // For SimulatedTradeProvider to fetch current price:
+  userId?: string; // To potentially log who initiated close, or for simulated context
+  tradingAccountId?: string; // For simulated context
+}
+
+export interface CloseOrderResult {
+  success: boolean;
+  ticketId: string;
+  closePrice?: number;
+  profit?: number;
+  error?: string;
+}
+
+export interface ModifyOrderParams {
+  ticketId: string;
+  stopLossPrice?: number;   // Omit to leave unchanged
+  takeProfitPrice?: number; // Omit to leave unchanged
+  // Pending orders only, each omitted to leave unchanged; null expiresAt makes the order good till cancelled
+  entryPrice?: number;
+  stopLimitPrice?: number;
+  expiresAt?: string | null;
+  tradingAccountId?: string; // Simulated provider: only this account's trade or order is modified
+}
+
+export interface ModifyOrderResult {
+  success: boolean;
+  ticketId: string;
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  error?: string;
+}
+
+export interface CancelOrderParams {
+  ticketId: string;
+  reason?: string; // Recorded as trades.close_reason by the simulated provider; 'Cancelled' by default
+  tradingAccountId?: string; // Simulated provider: only this account's order is cancelled
+}
+
+export interface CancelOrderResult {
+  success: boolean;
+  ticketId: string;
+  error?: string;
+}
+
+export interface AccountSummary {
+  balance: number;
+  equity: number;
+  margin: number;
+  freeMargin: number;
+  currency: string;
+  error?: string;
+}
+
+export interface OpenPosition {
+  ticket: string;
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  lots: number;
+  openPrice: number;
+  openTime: string;
+  stopLoss?: number;
+  takeProfit?: number;
+  currentPrice?: number;
+  profit?: number;
+  swap?: number;
+  comment?: string;
+  magicNumber?: number; // Bridge positions: the opening session's sessionMagicNumber, 0 when opened by hand
+}
+
+export interface PendingOrder {
+  ticket: string;
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  orderType: Exclude<OrderType, 'MARKET'>;
+  lots: number;
+  entryPrice: number;
+  stopLimitPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  placedAt: string;
+  expiresAt?: string;
+  triggered?: boolean; // STOP_LIMIT whose stop price has traded; it now rests as a limit order
+  comment?: string;
+  magicNumber?: number;
+}
+
+export interface ServerTime {
+  time: string;
+  error?: string;
+}
+
+// Expanded Interface
+export interface ITradeExecutionProvider {
+  executeOrder(params: ExecuteOrderParams): Promise<ExecuteOrderResult>;
+  closeOrder(params: CloseOrderParams): Promise<CloseOrderResult>;
+  modifyOrder(params: ModifyOrderParams): Promise<ModifyOrderResult>;
+  cancelOrder(params: CancelOrderParams): Promise<CancelOrderResult>;
+  getAccountSummary(tradingAccountId?: string): Promise<AccountSummary>;
+  getOpenPositions(tradingAccountId?: string): Promise<OpenPosition[]>;
+  getPendingOrders(tradingAccountId?: string): Promise<PendingOrder[]>;
+  getServerTime(): Promise<ServerTime>;
+}
+
+export type MarketDataSource = 'ALPHA_VANTAGE' | 'METATRADER' | 'REPLAY';
+
+export interface MarketQuote {
+  symbol: string;
+  bid: number;
+  ask: number;
+  price: number;  // Mid; what the bot treats as "the" current price
+  time: string;   // ISO UTC of the quote
+  source: MarketDataSource;
+}
+
+export interface IMarketDataProvider {
+  readonly source: MarketDataSource;
+  getQuote(symbol: string): Promise<MarketQuote>;
+  // Newest `count` bars, oldest first, in price_data's shape; the last one may still be forming
+  getBars(symbol: string, timeframe: PriceTimeframe, count: number): Promise<OhlcBar[]>;
+  getServerTime(): Promise<ServerTime>;
+}
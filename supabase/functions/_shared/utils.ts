@@ -0,0 +1,42 @@
+// Small runtime-neutral helpers shared by the edge functions and their tools.
+
+export async function retryAsyncFunction<T>(
+  asyncFn: () => Promise<T>,
+  maxRetries: number = 3,
+  delayMs: number = 1000,
+  context: string = "Unnamed",
+  shouldRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  let attempts = 0;
+  while (attempts < maxRetries) {
+    try {
+      if (attempts > 0) {
+        console.log(`Retrying ${context}: Attempt ${attempts + 1} of ${maxRetries} after ${delayMs}ms delay...`);
+      }
+      return await asyncFn();
+    } catch (error) {
+      attempts++;
+      console.error(`Error in ${context} on attempt ${attempts}:`, error.message);
+      if (!shouldRetry(error)) throw error;
+      if (attempts >= maxRetries) {
+        console.error(`All ${maxRetries} retries failed for ${context}.`);
+        // logSystemEvent is async, but this is inside a sync function if not careful.
+        // However, retryAsyncFunction IS async. So this is fine.
+        // We need supabaseClient here. This helper might need to be a class or take client.
+        // For now, we cannot call logSystemEvent from here without supabaseClient.
+        // Let's assume the caller of retryAsyncFunction will log the final failure.
+        throw error; // Re-throw the last error
+      }
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+  // Should not be reached if maxRetries > 0, but typescript needs a return path or throw
+  throw new Error(`All retries failed for ${context} (this line should not be reached).`);
+}
+
+// Alpha Vantage (and most CSV exports) give 'YYYY-MM-DD[ HH:MM:SS]' without a zone; those are UTC.
+export function parseUtcTimestamp(value: string): Date {
+  const text = String(value).trim();
+  const withTime = /^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00` : text.replace(' ', 'T');
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/i.test(withTime) ? withTime : `${withTime}Z`);
+}
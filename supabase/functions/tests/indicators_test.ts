@@ -0,0 +1,92 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  atr,
+  bollingerBands,
+  closes,
+  createATRStream,
+  createBollingerBandsStream,
+  createEMAStream,
+  createMACDStream,
+  createRSIStream,
+  createSMAStream,
+  ema,
+  macd,
+  rsi,
+  sma,
+  type PriceBar,
+  type StreamingIndicator,
+} from "../_shared/indicators.ts";
+
+// The streaming calculators against the series functions:
+//   deno test supabase/functions/tests/indicators_test.ts
+// A stream fed bar by bar reports what the series does at each bar, and a preview of the forming bar
+// is what the series reports once that bar closes at the previewed price.
+
+const BARS: PriceBar[] = Array.from({ length: 60 }, (_, i) => {
+  const open = 2000 + 12 * Math.sin(i / 4) + i * 0.1;
+  const close = 2000 + 12 * Math.sin((i + 1) / 4) + (i + 1) * 0.1;
+  return {
+    timestamp: new Date(Date.UTC(2001, 0, 1) + i * 15 * 60000).toISOString(),
+    open_price: open,
+    high_price: Math.max(open, close) + 0.5 + (i % 3) * 0.25,
+    low_price: Math.min(open, close) - 0.5 - (i % 2) * 0.25,
+    close_price: close,
+  };
+});
+const CLOSES = closes(BARS);
+
+// Rounded so the stream and the series may differ in the last floating-point bits
+function rounded(value: unknown): unknown {
+  if (typeof value === 'number') return Math.round(value * 1e8) / 1e8;
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, rounded(v)]));
+  return value;
+}
+
+function assertStreamMatchesSeries<TInput, TOutput>(
+  createStream: () => StreamingIndicator<TInput, TOutput>,
+  inputs: TInput[],
+  series: (inputs: TInput[]) => unknown[],
+) {
+  const stream = createStream();
+  assertEquals(stream.value, null);
+  const pushed = inputs.map(input => stream.push(input));
+  const expected = series(inputs);
+  assertEquals(pushed.map(rounded), expected.map(rounded));
+  assertEquals(rounded(stream.value), rounded(expected[expected.length - 1]));
+
+  // Previewing the forming bar at two ticks commits neither
+  const replay = createStream();
+  inputs.slice(0, -1).forEach(input => replay.push(input));
+  const committed = replay.value;
+  const forming = inputs[inputs.length - 1];
+  replay.preview(inputs[0]);
+  assertEquals(rounded(replay.preview(forming)), rounded(expected[expected.length - 1]));
+  assertEquals(replay.value, committed);
+}
+
+Deno.test('SMA stream matches the series', () => {
+  assertStreamMatchesSeries(() => createSMAStream(10), CLOSES, values => sma(values, 10));
+});
+
+Deno.test('EMA stream matches the series', () => {
+  assertStreamMatchesSeries(() => createEMAStream(12), CLOSES, values => ema(values, 12));
+});
+
+Deno.test('RSI stream matches the series', () => {
+  assertStreamMatchesSeries(() => createRSIStream(14), CLOSES, values => rsi(values, 14));
+});
+
+Deno.test('ATR stream matches the series', () => {
+  assertStreamMatchesSeries(() => createATRStream(14), BARS, bars => atr(bars, 14));
+});
+
+Deno.test('Bollinger Bands stream matches the series', () => {
+  assertStreamMatchesSeries(() => createBollingerBandsStream(20, 2), CLOSES, values => bollingerBands(values, 20, 2).map(band => band.middle === null ? null : band));
+});
+
+Deno.test('MACD stream matches the series', () => {
+  assertStreamMatchesSeries(() => createMACDStream(12, 26, 9), CLOSES, values => {
+    const { macd: line, signal, histogram } = macd(values, 12, 26, 9);
+    return line.map((value, i) => value === null ? null : { macd: value, signal: signal[i], histogram: histogram[i] });
+  });
+});
@@ -0,0 +1,166 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { assert, assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+// Market replay through the deployed trading-engine function, against a local Supabase stack
+// (`supabase start` and `supabase functions serve trading-engine`):
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... deno test --allow-net --allow-env supabase/functions/tests/
+// The engine must run with the simulated trade provider. The tests seed their own users, accounts and
+// synthetic 15m bars in January 2001, far before any real data, and delete them afterwards. Replays
+// are requested with the session owner's JWT.
+// Without SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY they are skipped.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const ignore = !SUPABASE_URL || !SERVICE_ROLE_KEY;
+
+const BAR_MS = 15 * 60000;
+const SEED_START = Date.UTC(2001, 0, 1); // A Monday
+const SEED_BARS = 400; // Monday to Friday morning
+const REPLAY_FROM = new Date(SEED_START + 150 * BAR_MS).toISOString();
+const REPLAY_STEPS = 96;
+const STRATEGY_PARAMS = { smaShortPeriod: 5, smaLongPeriod: 12, max_drawdown_percent: 0.5 };
+
+// A slow wave with a drift, so the short SMA crosses the long one every few hours
+function seededBars() {
+  return Array.from({ length: SEED_BARS }, (_, i) => {
+    const open = 2000 + 15 * Math.sin(i / 6) + i * 0.05;
+    const close = 2000 + 15 * Math.sin((i + 1) / 6) + (i + 1) * 0.05;
+    return {
+      symbol: 'XAUUSD',
+      timeframe: '15m',
+      timestamp: new Date(SEED_START + i * BAR_MS).toISOString(),
+      open_price: open.toFixed(2),
+      high_price: (Math.max(open, close) + 1).toFixed(2),
+      low_price: (Math.min(open, close) - 1).toFixed(2),
+      close_price: close.toFixed(2),
+      volume: 0,
+    };
+  });
+}
+
+async function invokeEngine(action: string, data: unknown, token = SERVICE_ROLE_KEY): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/trading-engine`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+    body: JSON.stringify({ action, data }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test({ name: 'Market replay', ignore, sanitizeOps: false, sanitizeResources: false }, async (t) => {
+  const supabase = createClient(SUPABASE_URL as string, SERVICE_ROLE_KEY as string);
+  const userIds: string[] = [];
+  let owner = { id: '', token: '' };
+  // A confirmed user with a profile, and the access token of a sign-in as them
+  const newUser = async () => {
+    const email = `replay-test-${crypto.randomUUID()}@example.com`;
+    const password = crypto.randomUUID();
+    const { data: created, error: userError } = await supabase.auth.admin.createUser({ email, password, email_confirm: true });
+    if (userError) throw userError;
+    userIds.push(created.user.id);
+    const { error: profileError } = await supabase.from('profiles').insert({ id: created.user.id, email });
+    if (profileError) throw profileError;
+    const signedIn = await createClient(SUPABASE_URL as string, SERVICE_ROLE_KEY as string, { auth: { persistSession: false } }).auth.signInWithPassword({ email, password });
+    if (signedIn.error) throw signedIn.error;
+    return { id: created.user.id, token: signedIn.data.session.access_token };
+  };
+  const replay = (sessionIds: string[], from: string, steps: number, token: string) =>
+    invokeEngine('run_bot_logic', { replay: { sessionIds, from, steps } }, token);
+
+  const insertOne = async (table: string, row: Record<string, unknown>) => {
+    const { data, error } = await supabase.from(table).insert(row).select().single();
+    if (error) throw new Error(`Could not seed ${table}: ${error.message}`);
+    return data;
+  };
+  // Each session of the owner trades its own account, so one session's trades don't move another's equity
+  const newSession = async (mode: 'live' | 'replay', status = 'active') => {
+    const account = await insertOne('trading_accounts', { user_id: owner.id, platform: 'MT5', server_name: 'Replay-Test', login_id: crypto.randomUUID().slice(0, 8), password_encrypted: 'unused' });
+    return await insertOne('bot_sessions', {
+      user_id: owner.id,
+      trading_account_id: account.id,
+      risk_level: 'medium',
+      strategy_selection_mode: 'SMA_ONLY',
+      strategy_params: STRATEGY_PARAMS,
+      mode,
+      status,
+      session_start: REPLAY_FROM,
+    });
+  };
+  const decisionsOf = async (sessionId: string) => {
+    const { data, error } = await supabase.from('bot_decisions').select('decided_at, signal, price, stop_loss, take_profit, lot_size, executed, skip_reason').eq('session_id', sessionId).order('decided_at');
+    if (error) throw error;
+    return data;
+  };
+  const tradesOf = async (sessionId: string) => {
+    const { data, error } = await supabase.from('trades').select('trade_type, lot_size, open_price, open_time, close_price, close_time, status, close_reason, profit_loss').eq('bot_session_id', sessionId).order('open_time');
+    if (error) throw error;
+    return data;
+  };
+
+  let replayedDecisions: unknown[] = [];
+  try {
+    owner = await newUser();
+    const { error: barsError } = await supabase.from('price_data').upsert(seededBars(), { onConflict: 'symbol,timeframe,timestamp' });
+    if (barsError) throw barsError;
+
+    await t.step('replays a session the same way every time', async () => {
+      const runs = [];
+      for (const session of [await newSession('replay'), await newSession('replay')]) {
+        const { status, body } = await replay([session.id], REPLAY_FROM, REPLAY_STEPS, owner.token);
+        assertEquals(status, 200, body.error);
+        assertEquals(body.steps.length, REPLAY_STEPS);
+        assertEquals(body.time, new Date(Date.parse(REPLAY_FROM) + REPLAY_STEPS * BAR_MS).toISOString());
+        runs.push({ decisions: await decisionsOf(session.id), trades: await tradesOf(session.id) });
+      }
+      assert(runs[0].decisions.length > 0, 'Each step should record a decision.');
+      assert(runs[0].trades.length > 0, 'The seeded bars should make the session trade.');
+      assertEquals(runs[1], runs[0]);
+      replayedDecisions = runs[0].decisions;
+    });
+
+    await t.step('continues from the time the previous request reached', async () => {
+      const session = await newSession('replay');
+      let from = REPLAY_FROM;
+      for (const steps of [REPLAY_STEPS / 2, REPLAY_STEPS / 2]) {
+        const { status, body } = await replay([session.id], from, steps, owner.token);
+        assertEquals(status, 200, body.error);
+        from = body.time;
+      }
+      assertEquals(await decisionsOf(session.id), replayedDecisions);
+    });
+
+    await t.step('leaves replay sessions out of the scheduled run', async () => {
+      const session = await newSession('replay');
+      const { status, body } = await invokeEngine('run_bot_logic', {});
+      assertEquals(status, 200, body.error);
+      assertEquals(await decisionsOf(session.id), []);
+      const { data: untouched } = await supabase.from('bot_sessions').select('status, session_initial_equity').eq('id', session.id).single();
+      assertEquals(untouched, { status: 'active', session_initial_equity: null });
+    });
+
+    await t.step('refuses to replay live sessions', async () => {
+      const live = await newSession('live', 'stopped'); // Stopped, so no scheduled run picks it up
+      const replayed = await newSession('replay');
+      const { status, body } = await replay([replayed.id, live.id], REPLAY_FROM, 1, owner.token);
+      assertEquals(status, 400);
+      assertStringIncludes(body.error, live.id);
+      assertEquals(await decisionsOf(replayed.id), []);
+      assertEquals(await decisionsOf(live.id), []);
+    });
+
+    await t.step("refuses to replay another user's sessions", async () => {
+      const session = await newSession('replay');
+      const intruder = await newUser();
+      const { status, body } = await replay([session.id], REPLAY_FROM, 1, intruder.token);
+      assertEquals(status, 404);
+      assertStringIncludes(body.error, session.id);
+      assertEquals((await replay([session.id], REPLAY_FROM, 1, SERVICE_ROLE_KEY as string)).status, 401); // Not a user's JWT
+      assertEquals(await decisionsOf(session.id), []);
+    });
+  } finally {
+    await supabase.from('price_data').delete().eq('symbol', 'XAUUSD').eq('timeframe', '15m')
+      .gte('timestamp', new Date(SEED_START).toISOString())
+      .lt('timestamp', new Date(SEED_START + SEED_BARS * BAR_MS).toISOString());
+    for (const id of userIds) await supabase.auth.admin.deleteUser(id); // Cascades to the profile and everything seeded for it
+  }
+});
@@ -0,0 +1,13 @@
+/*
+  # Backtest equity simulation
+
+  1. Changes
+    - `backtest_reports.initial_balance` - Starting balance used for the simulation
+    - `backtest_reports.final_balance` - Realized balance at the end of the run
+    - `backtest_reports.equity_curve` - Per-candle [{ time, balance, equity }] series
+*/
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS initial_balance decimal(15,2) DEFAULT 10000,
+  ADD COLUMN IF NOT EXISTS final_balance decimal(15,2),
+  ADD COLUMN IF NOT EXISTS equity_curve jsonb;
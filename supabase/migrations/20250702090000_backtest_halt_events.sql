@@ -0,0 +1,10 @@
+/*
+  # Backtest circuit breakers
+
+  1. Changes
+    - `backtest_reports.halt_events` - [{ time, reason, message, resumesAt }] recorded when the
+      max-drawdown, daily-loss or daily-trade-count guards stopped new entries during the run
+*/
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS halt_events jsonb DEFAULT '[]'::jsonb;
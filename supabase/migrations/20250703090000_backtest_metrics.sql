@@ -0,0 +1,23 @@
+/*
+  # Backtest risk-adjusted metrics
+
+  1. Changes
+    - Adds drawdown, Sharpe/Sortino, profit factor, expectancy, average win/loss, streak,
+      holding time, exposure and CAGR columns to `backtest_reports`
+    - Reports created before this migration have these computed on read by get_backtest_report_action
+*/
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS max_drawdown decimal(15,2),
+  ADD COLUMN IF NOT EXISTS max_drawdown_percent decimal(9,4),
+  ADD COLUMN IF NOT EXISTS sharpe_ratio decimal(12,4),
+  ADD COLUMN IF NOT EXISTS sortino_ratio decimal(12,4),
+  ADD COLUMN IF NOT EXISTS profit_factor decimal(12,4),
+  ADD COLUMN IF NOT EXISTS expectancy decimal(15,2),
+  ADD COLUMN IF NOT EXISTS average_win decimal(15,2),
+  ADD COLUMN IF NOT EXISTS average_loss decimal(15,2),
+  ADD COLUMN IF NOT EXISTS max_consecutive_wins integer,
+  ADD COLUMN IF NOT EXISTS max_consecutive_losses integer,
+  ADD COLUMN IF NOT EXISTS average_holding_minutes decimal(15,2),
+  ADD COLUMN IF NOT EXISTS exposure_percent decimal(7,2),
+  ADD COLUMN IF NOT EXISTS cagr_percent decimal(12,4);
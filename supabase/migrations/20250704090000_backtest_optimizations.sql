@@ -0,0 +1,49 @@
+/*
+  # Backtest parameter optimizations
+
+  1. New Tables
+    - `backtest_optimizations` - one grid-search run of run_optimization_action
+      (parameter ranges, objective, progress and the best-ranked candidate)
+
+  2. Changes
+    - `backtest_reports` gains `optimization_id`, `optimization_params` and `optimization_rank`
+      so every candidate of a run is stored as a linked report
+
+  3. Security
+    - Enable RLS on `backtest_optimizations`; users manage their own runs
+*/
+
+CREATE TABLE IF NOT EXISTS backtest_optimizations (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  symbol text NOT NULL DEFAULT 'XAUUSD',
+  timeframe text NOT NULL,
+  start_date timestamptz NOT NULL,
+  end_date timestamptz NOT NULL,
+  strategy_selection_mode text,
+  base_strategy_params jsonb DEFAULT '{}',
+  risk_settings jsonb DEFAULT '{}',
+  parameter_ranges jsonb NOT NULL,
+  objective text NOT NULL,
+  total_combinations integer NOT NULL DEFAULT 0,
+  completed_combinations integer NOT NULL DEFAULT 0,
+  best_report_id uuid,
+  best_params jsonb,
+  status text DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS optimization_id uuid REFERENCES backtest_optimizations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS optimization_params jsonb,
+  ADD COLUMN IF NOT EXISTS optimization_rank integer;
+
+ALTER TABLE backtest_optimizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own backtest optimizations"
+  ON backtest_optimizations FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_backtest_optimizations_user_id ON backtest_optimizations(user_id);
+CREATE INDEX IF NOT EXISTS idx_backtest_reports_optimization_id ON backtest_reports(optimization_id);
@@ -0,0 +1,13 @@
+/*
+  # Walk-forward backtest reports
+
+  1. Changes
+    - Adds `walk_forward_config`, `walk_forward_windows` and `walk_forward_efficiency` to `backtest_reports`
+    - A walk-forward report stores the stitched out-of-sample trades and equity curve like a normal report;
+      `walk_forward_windows` holds the per-window parameter history
+*/
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS walk_forward_config jsonb,
+  ADD COLUMN IF NOT EXISTS walk_forward_windows jsonb,
+  ADD COLUMN IF NOT EXISTS walk_forward_efficiency decimal(12,4);
@@ -0,0 +1,10 @@
+/*
+  # Monte Carlo results on backtest reports
+
+  1. Changes
+    - Adds `monte_carlo` jsonb to `backtest_reports` holding the latest run_monte_carlo_action result
+      (final equity / max drawdown percentiles, risk of ruin and equity bands)
+*/
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS monte_carlo jsonb;
@@ -0,0 +1,10 @@
+/*
+  # Intrabar SL/TP resolution stats on backtest reports
+
+  1. Changes
+    - Adds `intrabar_resolution` jsonb to `backtest_reports`: the fallback mode used when SL and TP fall
+      inside one candle, and how many such candles were decided by lower-timeframe bars vs. the fallback
+*/
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS intrabar_resolution jsonb;
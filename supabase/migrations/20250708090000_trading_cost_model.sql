@@ -0,0 +1,26 @@
+/*
+  # Trading cost model
+
+  1. Changes
+    - `trades.cost_breakdown` and `simulated_trades.cost_breakdown` record the spread, commission, swap and
+      slippage charged on each closed trade (signed amounts, charges negative); `profit_loss` is net of them
+    - `simulated_trades.gross_profit_or_loss` keeps the price-move-only result
+    - `backtest_reports.cost_totals` sums the breakdown over a report's trades
+    - Seeds the `simulated_cost_model` system setting used by the simulated trade provider
+*/
+
+ALTER TABLE IF EXISTS trades
+  ADD COLUMN IF NOT EXISTS cost_breakdown jsonb;
+
+ALTER TABLE IF EXISTS simulated_trades
+  ADD COLUMN IF NOT EXISTS gross_profit_or_loss decimal(15,2),
+  ADD COLUMN IF NOT EXISTS cost_breakdown jsonb;
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS cost_totals jsonb;
+
+INSERT INTO system_settings (key, value, description) VALUES
+('simulated_cost_model',
+ '{"spreadPoints": 0.3, "spreadSchedule": [{"fromHourUtc": 21, "toHourUtc": 23, "spreadPoints": 0.8}], "commissionPerLot": 7, "swapLongPerLot": -6.5, "swapShortPerLot": 2.1, "rolloverHourUtc": 21, "tripleSwapWeekday": 3, "slippagePoints": 0.05}',
+ 'Spread, commission, swap and slippage applied by the simulated trade provider')
+ON CONFLICT (key) DO NOTHING;
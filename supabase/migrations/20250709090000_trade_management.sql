@@ -0,0 +1,15 @@
+/*
+  # Trade management
+
+  1. Changes
+    - `trades.close_reason` records what closed a trade (e.g. 'Time', 'Partial', 'Manual')
+    - `trades.partial_closed_at` marks positions whose first target was already taken
+    - `trades.parent_trade_id` links the closed row of a partial close to the position it came from
+*/
+
+ALTER TABLE IF EXISTS trades
+  ADD COLUMN IF NOT EXISTS close_reason text,
+  ADD COLUMN IF NOT EXISTS partial_closed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS parent_trade_id uuid REFERENCES trades(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_parent_trade_id ON trades(parent_trade_id);
@@ -0,0 +1,11 @@
+/*
+  # Bot trade management pass
+
+  1. Changes
+    - `trades.managed_until` is the start of the last completed bar a live session's management pass
+      checked the trade's SL/TP against, so each bar is evaluated once and a stop tightened on that bar
+      only applies from the next one (the same order the backtester uses)
+*/
+
+ALTER TABLE IF EXISTS trades
+  ADD COLUMN IF NOT EXISTS managed_until timestamptz;
@@ -0,0 +1,17 @@
+/*
+  # Adaptive regime routing
+
+  1. Changes
+    - `trades.market_regime` and `simulated_trades.market_regime` record the regime ADAPTIVE classified
+      when it opened the trade (TRENDING_UP, TRENDING_DOWN, RANGING, BREAKOUT_SETUP_UP, BREAKOUT_SETUP_DOWN)
+    - `backtest_reports.regime_breakdown` holds decisions, trades, wins, losses and net P/L per regime
+*/
+
+ALTER TABLE IF EXISTS trades
+  ADD COLUMN IF NOT EXISTS market_regime text;
+
+ALTER TABLE IF EXISTS simulated_trades
+  ADD COLUMN IF NOT EXISTS market_regime text;
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS regime_breakdown jsonb DEFAULT '{}'::jsonb;
@@ -0,0 +1,46 @@
+/*
+  # Entry time filters
+
+  1. New Tables
+    - `news_blackout_events` - calendar of high-impact releases (NFP, FOMC, CPI, ...); bots and
+      backtests that enable `newsBlackout` open no trades from `minutes_before` the event until
+      `minutes_after` it
+
+  2. Changes
+    - `backtest_reports.entry_blackout_skips` counts entry signals skipped per blackout reason
+
+  3. Security
+    - Enable RLS on `news_blackout_events`; authenticated users can read, admins manage the calendar
+*/
+
+CREATE TABLE IF NOT EXISTS news_blackout_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title text NOT NULL,
+  currency text NOT NULL DEFAULT 'USD',
+  event_time timestamptz NOT NULL,
+  minutes_before integer NOT NULL DEFAULT 30 CHECK (minutes_before >= 0),
+  minutes_after integer NOT NULL DEFAULT 30 CHECK (minutes_after >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE IF EXISTS backtest_reports
+  ADD COLUMN IF NOT EXISTS entry_blackout_skips jsonb DEFAULT '{}'::jsonb;
+
+ALTER TABLE news_blackout_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read news blackout events"
+  ON news_blackout_events FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage news blackout events"
+  ON news_blackout_events FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_news_blackout_events_event_time ON news_blackout_events(event_time);
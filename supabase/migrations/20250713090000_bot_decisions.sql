@@ -0,0 +1,39 @@
+/*
+  # Bot decision audit log
+
+  1. New Tables
+    - `bot_decisions` - one row per processBotSession evaluation: strategy, detected regime,
+      indicator snapshot (SMA, Bollinger Bands, RSI, ADX/DI, ATR), resulting signal with SL/TP and
+      lot size, whether a trade was opened, and why not when it wasn't (`skip_reason`)
+
+  2. Security
+    - Enable RLS on `bot_decisions`; users read the decisions of their own sessions
+*/
+
+CREATE TABLE IF NOT EXISTS bot_decisions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id uuid NOT NULL REFERENCES bot_sessions(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  decided_at timestamptz NOT NULL DEFAULT now(),
+  strategy text NOT NULL,
+  regime text,
+  indicators jsonb DEFAULT '{}',
+  signal text NOT NULL DEFAULT 'NONE' CHECK (signal IN ('BUY', 'SELL', 'NONE')),
+  price decimal(10,5),
+  stop_loss decimal(10,5),
+  take_profit decimal(10,5),
+  lot_size decimal(10,3),
+  executed boolean NOT NULL DEFAULT false,
+  trade_ticket text,
+  skip_reason text,
+  message text
+);
+
+ALTER TABLE bot_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own bot decisions"
+  ON bot_decisions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_bot_decisions_session_decided_at ON bot_decisions(session_id, decided_at DESC);
@@ -0,0 +1,31 @@
+/*
+  # Idempotent price_data ingestion
+
+  1. Changes
+    - `price_data.symbol` is now NOT NULL (missing symbols are backfilled as 'XAUUSD')
+    - Duplicate (symbol, timeframe, timestamp) rows are removed, keeping the newest, and a unique
+      constraint on those columns lets ingestion upsert bars instead of inserting copies
+    - Timeframes stay in the canonical CHECK values ('1m', '5m', '15m', '30m', '1h', '4h', '1d');
+      the trading engine now normalizes '15min', '60min', 'daily' etc. before writing or reading
+
+  2. Security
+    - No changes; price data stays readable by authenticated users and is written by the engine
+*/
+
+UPDATE price_data SET symbol = 'XAUUSD' WHERE symbol IS NULL;
+ALTER TABLE IF EXISTS price_data ALTER COLUMN symbol SET NOT NULL;
+
+DELETE FROM price_data older
+  USING price_data newer
+  WHERE older.symbol = newer.symbol
+    AND older.timeframe = newer.timeframe
+    AND older.timestamp = newer.timestamp
+    AND (older.created_at, older.id) < (newer.created_at, newer.id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'price_data_symbol_timeframe_timestamp_key') THEN
+    ALTER TABLE price_data
+      ADD CONSTRAINT price_data_symbol_timeframe_timestamp_key UNIQUE (symbol, timeframe, timestamp);
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+/*
+  # Broker position reconciliation
+
+  1. Changes
+    - `trades.reconciliation_flag` marks rows the reconciler inserted for broker positions no session
+      owns: 'MANUAL' (opened by hand, magic number 0) or 'ORPHANED' (magic number of no session on the account)
+    - `trades.reconciled_at` records when reconciliation last inserted, closed or resized the row
+    - Index on (trading_account_id, status) for the per-account open-trade lookup
+*/
+
+ALTER TABLE IF EXISTS trades
+  ADD COLUMN IF NOT EXISTS reconciliation_flag text CHECK (reconciliation_flag IN ('ORPHANED', 'MANUAL')),
+  ADD COLUMN IF NOT EXISTS reconciled_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_trades_account_status ON trades(trading_account_id, status);
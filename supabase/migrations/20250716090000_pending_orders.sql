@@ -0,0 +1,28 @@
+/*
+  # Pending orders
+
+  1. Changes
+    - `trades.status` gains 'pending' for limit, stop and stop-limit orders that have not filled;
+      unfilled orders end as 'cancelled' (close_reason 'Cancelled', 'Expired' or 'Broker')
+    - `trades.order_type` ('MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'); while pending, `open_price` is the
+      entry or trigger price and becomes the fill price once filled
+    - `trades.stop_limit_price` is the limit a STOP_LIMIT order rests at once its stop has traded
+      (`trades.triggered_at`)
+    - `trades.expires_at` cancels a pending order not filled by then; NULL is good till cancelled
+    - `trades.placed_at` records when the order was placed; `open_time` is now NULL until it fills
+*/
+
+ALTER TABLE IF EXISTS trades DROP CONSTRAINT IF EXISTS trades_status_check;
+ALTER TABLE IF EXISTS trades
+  ADD CONSTRAINT trades_status_check CHECK (status IN ('pending', 'open', 'closed', 'cancelled'));
+
+ALTER TABLE IF EXISTS trades
+  ADD COLUMN IF NOT EXISTS order_type text NOT NULL DEFAULT 'MARKET' CHECK (order_type IN ('MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT')),
+  ADD COLUMN IF NOT EXISTS stop_limit_price decimal(10,5),
+  ADD COLUMN IF NOT EXISTS triggered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS placed_at timestamptz;
+
+UPDATE trades SET placed_at = COALESCE(open_time, created_at) WHERE placed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_pending ON trades(trading_account_id, placed_at) WHERE status = 'pending';
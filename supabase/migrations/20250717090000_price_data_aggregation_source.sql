@@ -0,0 +1,15 @@
+/*
+  # Aggregated price bars
+
+  1. Changes
+    - `price_data.aggregated_from` is the source timeframe of a bar the trading engine built by
+      aggregation, NULL for bars ingested directly. Aggregation only overwrites its own bars, so a
+      directly ingested 1h or 1d series is never replaced by one rebuilt from 1m bars
+    - Existing 4h bars are marked as built from 1m: no feed provides them, only aggregation does
+*/
+
+ALTER TABLE IF EXISTS price_data
+  ADD COLUMN IF NOT EXISTS aggregated_from text
+    CHECK (aggregated_from IN ('1m', '5m', '15m', '30m', '1h', '4h'));
+
+UPDATE price_data SET aggregated_from = '1m' WHERE timeframe = '4h' AND aggregated_from IS NULL;
@@ -0,0 +1,13 @@
+/*
+  # Replay sessions
+
+  1. Changes
+    - `bot_sessions.mode` is 'live' for sessions run by the scheduled run_bot_logic and 'replay' for
+      sessions run only by market replay requests, against a virtual clock. Neither run touches the
+      other's sessions
+*/
+
+ALTER TABLE IF EXISTS bot_sessions
+  ADD COLUMN IF NOT EXISTS mode text NOT NULL DEFAULT 'live' CHECK (mode IN ('live', 'replay'));
+
+CREATE INDEX IF NOT EXISTS idx_bot_sessions_mode_status ON bot_sessions(mode, status);
@@ -0,0 +1,11 @@
+/*
+  # Drawdown-paused bot sessions
+
+  1. Changes
+    - `bot_sessions.status` gains 'paused_drawdown': a session that reached its max drawdown opens no
+      new trades, while the scheduled run keeps managing its open ones until they close
+*/
+
+ALTER TABLE IF EXISTS bot_sessions DROP CONSTRAINT IF EXISTS bot_sessions_status_check;
+ALTER TABLE IF EXISTS bot_sessions
+  ADD CONSTRAINT bot_sessions_status_check CHECK (status IN ('active', 'paused_drawdown', 'stopped', 'error'));
@@ -0,0 +1,20 @@
+/*
+  # News blackout window cap
+
+  1. Changes
+    - `news_blackout_events.minutes_before` and `minutes_after` are at most a day (1440 minutes),
+      the padding the trading engine's calendar query allows around its period; longer existing
+      windows are cut to a day
+*/
+
+UPDATE news_blackout_events
+  SET minutes_before = LEAST(minutes_before, 1440), minutes_after = LEAST(minutes_after, 1440)
+  WHERE minutes_before > 1440 OR minutes_after > 1440;
+
+ALTER TABLE IF EXISTS news_blackout_events DROP CONSTRAINT IF EXISTS news_blackout_events_minutes_before_check;
+ALTER TABLE IF EXISTS news_blackout_events
+  ADD CONSTRAINT news_blackout_events_minutes_before_check CHECK (minutes_before BETWEEN 0 AND 1440);
+
+ALTER TABLE IF EXISTS news_blackout_events DROP CONSTRAINT IF EXISTS news_blackout_events_minutes_after_check;
+ALTER TABLE IF EXISTS news_blackout_events
+  ADD CONSTRAINT news_blackout_events_minutes_after_check CHECK (minutes_after BETWEEN 0 AND 1440);
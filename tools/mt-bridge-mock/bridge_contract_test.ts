@@ -0,0 +1,227 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { assert, assertEquals, assertNotEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { createMockBridge } from "./index.ts";
+import { encryptPassword } from "../../supabase/functions/_shared/credentials.ts";
+import {
+  MetaTraderBridgeProvider,
+  bridgeSessions,
+  sessionMagicNumber,
+  type MetaTraderAccount,
+} from "../../supabase/functions/_shared/metatraderBridge.ts";
+import type { ExecuteOrderParams } from "../../supabase/functions/_shared/providers.ts";
+
+// MetaTraderBridgeProvider against the mock bridge, started in-process:
+//   deno test --allow-net --allow-env tools/mt-bridge-mock/
+// Each step starts from a reset mock and an empty session cache. Retried requests wait 3s between
+// attempts, as in production, so the retry steps take a few seconds.
+
+const PORT = Number(Deno.env.get('MOCK_BRIDGE_TEST_PORT') || 8788);
+const BRIDGE_URL = `http://localhost:${PORT}`;
+const API_KEY = crypto.randomUUID();
+const PASSWORD = 'correct horse';
+
+async function control(path: string, body?: unknown): Promise<any> {
+  const response = await fetch(`${BRIDGE_URL}${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-MT-Bridge-API-Key': API_KEY },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return await response.json();
+}
+
+async function requestStatuses(path: string): Promise<number[]> {
+  const { requests } = await control('/mock/state');
+  return requests.filter((r: any) => r.path === path).map((r: any) => r.status);
+}
+
+function buyOrder(overrides: Partial<ExecuteOrderParams> = {}): ExecuteOrderParams {
+  return { userId: 'contract-test', tradingAccountId: '', symbol: 'XAUUSD', tradeType: 'BUY', lotSize: 0.1, openPrice: 0, stopLossPrice: 1900, ...overrides };
+}
+
+// A step that shares the in-process server with the others; its listener ops outlive every step
+function step(t: Deno.TestContext, name: string, fn: () => Promise<void>) {
+  return t.step({ name, fn, sanitizeOps: false, sanitizeResources: false });
+}
+
+async function reset() {
+  await control('/mock/reset', {});
+  bridgeSessions.clear();
+}
+
+Deno.test({ name: 'MetaTraderBridgeProvider against the mock bridge', sanitizeOps: false, sanitizeResources: false }, async (t) => {
+  Deno.env.set('TRADING_ACCOUNT_ENC_KEY', base64Encode(crypto.getRandomValues(new Uint8Array(32))));
+  const account: MetaTraderAccount = {
+    tradingAccountId: crypto.randomUUID(),
+    platform: 'MT5',
+    serverName: 'Mock-Demo',
+    loginId: '5551234',
+    passwordEncrypted: await encryptPassword(PASSWORD),
+  };
+  const provider = new MetaTraderBridgeProvider(BRIDGE_URL, API_KEY, account);
+
+  const controller = new AbortController();
+  let server: Promise<void> = Promise.resolve();
+  await new Promise<void>(resolve => {
+    server = serve(createMockBridge(API_KEY), { port: PORT, signal: controller.signal, onListen: () => resolve() });
+  });
+
+  try {
+    await step(t, 'rejects requests without the API key, test controls included', async () => {
+      for (const path of ['/server/time', '/mock/state']) {
+        const response = await fetch(`${BRIDGE_URL}${path}`);
+        assertEquals(response.status, 403);
+        await response.body?.cancel();
+      }
+    });
+
+    await step(t, 'opens a session and trades a market order', async () => {
+      await reset();
+      const sessionId = '00000000-0000-0000-0000-000001234567';
+      const opened = await provider.executeOrder(buyOrder({ lotSize: 0.5, stopLossPrice: 1990, takeProfitPrice: 2020, botSessionId: sessionId }));
+      assert(opened.success, opened.error);
+      assertEquals(opened.pending, false);
+      assert(bridgeSessions.has(account.tradingAccountId));
+
+      const positions = await provider.getOpenPositions();
+      assertEquals(positions.length, 1);
+      assertEquals(positions[0].ticket, opened.ticketId);
+      assertEquals(positions[0].lots, 0.5);
+      assertEquals(positions[0].magicNumber, sessionMagicNumber(sessionId));
+
+      const modified = await provider.modifyOrder({ ticketId: opened.ticketId as string, stopLossPrice: 1995 });
+      assert(modified.success, modified.error);
+      assertEquals(modified.stopLossPrice, 1995);
+
+      const summary = await provider.getAccountSummary();
+      assertEquals(summary.error, undefined);
+      assertEquals(summary.balance, 10000);
+      assertEquals(summary.currency, 'USD');
+
+      const time = await provider.getServerTime();
+      assertEquals(time.error, undefined);
+      assert(!Number.isNaN(Date.parse(time.time)));
+
+      const quote = await provider.getQuote('XAUUSD');
+      assertEquals(quote.bid, 2000);
+      assertEquals(quote.source, 'METATRADER');
+      const bars = await provider.getBars('XAUUSD', '1h', 5);
+      assertEquals(bars.length, 5);
+      assert(bars[0].timestamp < bars[4].timestamp);
+    });
+
+    await step(t, 'closes a position in parts and reports the closed deal', async () => {
+      await reset();
+      const opened = await provider.executeOrder(buyOrder({ lotSize: 1 }));
+      assert(opened.success, opened.error);
+      const ticketId = opened.ticketId as string;
+      await control('/mock/quote', { bid: 2010 });
+
+      const partial = await provider.closeOrder({ ticketId, lots: 0.4 });
+      assert(partial.success, partial.error);
+      assertEquals(partial.closePrice, 2010);
+      const remaining = await provider.getOpenPositions();
+      assertEquals(remaining.map(p => [p.ticket, p.lots]), [[ticketId, 0.6]]);
+      assertEquals(await provider.getClosedDeal(ticketId), null); // Still open
+
+      const tooMuch = await provider.closeOrder({ ticketId, lots: 5 });
+      assertEquals(tooMuch.success, false);
+      assertStringIncludes(tooMuch.error as string, 'Invalid volume');
+
+      const rest = await provider.closeOrder({ ticketId });
+      assert(rest.success, rest.error);
+      assertEquals(await provider.getOpenPositions(), []);
+      const deal = await provider.getClosedDeal(ticketId);
+      assertEquals(deal?.closePrice, 2010);
+      assertEquals(deal?.profit, partial.profit as number + (rest.profit as number));
+    });
+
+    await step(t, 'places, fills and cancels pending orders', async () => {
+      await reset();
+      const limit = await provider.executeOrder(buyOrder({ openPrice: 1990, orderType: 'LIMIT' }));
+      assert(limit.success, limit.error);
+      assertEquals(limit.pending, true);
+      const stop = await provider.executeOrder(buyOrder({ openPrice: 2050, orderType: 'STOP' }));
+      assert(stop.success, stop.error);
+
+      const orders = await provider.fetchPendingOrders();
+      assertEquals(orders.map(o => [o.ticket, o.orderType, o.entryPrice]), [[limit.ticketId, 'LIMIT', 1990], [stop.ticketId, 'STOP', 2050]]);
+
+      await control('/mock/quote', { bid: 1989 });
+      assertEquals((await provider.getOpenPositions()).map(p => p.ticket), [limit.ticketId]);
+
+      const cancelled = await provider.cancelOrder({ ticketId: stop.ticketId as string });
+      assert(cancelled.success, cancelled.error);
+      assertEquals(await provider.fetchPendingOrders(), []);
+    });
+
+    await step(t, 'treats 202 and 204 answers as accepted', async () => {
+      await reset();
+      await control('/mock/respond', { path: '/order/modify', status: 202 });
+      const modified = await provider.modifyOrder({ ticketId: '424242', stopLossPrice: 1980 });
+      assert(modified.success, modified.error);
+      assertEquals(modified.stopLossPrice, 1980); // The request's value, as the bridge returned none
+
+      await control('/mock/respond', { path: '/order/cancel', status: 204 });
+      const cancelled = await provider.cancelOrder({ ticketId: '424242' });
+      assert(cancelled.success, cancelled.error);
+    });
+
+    await step(t, 'surfaces error bodies, JSON or not', async () => {
+      await reset();
+      const missing = await provider.cancelOrder({ ticketId: '999999' });
+      assertEquals(missing.success, false);
+      assertStringIncludes(missing.error as string, '404 - Pending order 999999 not found.');
+      assertEquals(await requestStatuses('/order/cancel'), [404]); // A 404 isn't retried
+
+      await control('/mock/respond', { path: '/order/close', status: 404, body: 'no such ticket' });
+      const closed = await provider.closeOrder({ ticketId: '999999' });
+      assertEquals(closed.success, false);
+      assertStringIncludes(closed.error as string, '(POST /order/close): 404');
+
+      assertEquals(await provider.getClosedDeal('999999'), null);
+    });
+
+    await step(t, 'retries failed requests, then gives up', async () => {
+      await reset();
+      await control('/mock/respond', { path: '/account/summary', status: 500, body: { error: 'Terminal busy' } });
+      const recovered = await provider.getAccountSummary();
+      assertEquals(recovered.error, undefined);
+      assertEquals(recovered.balance, 10000);
+      assertEquals(await requestStatuses('/account/summary'), [500, 200]);
+
+      await control('/mock/respond', { path: '/account/summary', status: 500, body: { error: 'Terminal busy' }, times: 2 });
+      const failed = await provider.getAccountSummary();
+      assertStringIncludes(failed.error as string, '500 - Terminal busy');
+      assertEquals(await requestStatuses('/account/summary'), [500, 200, 500, 500]);
+    });
+
+    await step(t, 'reopens an expired session once', async () => {
+      await reset();
+      await provider.getAccountSummary();
+      const firstToken = bridgeSessions.get(account.tradingAccountId)?.token;
+      await control('/mock/expire-sessions', {});
+
+      const summary = await provider.getAccountSummary();
+      assertEquals(summary.error, undefined);
+      assertEquals(await requestStatuses('/account/summary'), [200, 401, 200]);
+      assertNotEquals(bridgeSessions.get(account.tradingAccountId)?.token, firstToken);
+    });
+
+    await step(t, 'does not retry a rejected login', async () => {
+      await reset();
+      await provider.getAccountSummary(); // The first login sets the mock account's password
+      bridgeSessions.clear();
+      const impostor = new MetaTraderBridgeProvider(BRIDGE_URL, API_KEY, { ...account, passwordEncrypted: await encryptPassword('wrong') });
+      const summary = await impostor.getAccountSummary();
+      assertStringIncludes(summary.error as string, 'Bridge login failed');
+      assertEquals(await requestStatuses('/session/open'), [200, 401]);
+
+      const { accounts } = await control('/mock/state');
+      assert(Object.values(accounts).every((a: any) => !('password' in a)));
+    });
+  } finally {
+    controller.abort();
+    await server;
+  }
+});
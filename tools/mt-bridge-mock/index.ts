@@ -0,0 +1,497 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+// Local stand-in for the MetaTrader EA bridge, implementing the contract MetaTraderBridgeProvider
+// (_shared/metatraderBridge.ts) speaks, against a simulated account and order book instead of a terminal.
+// Kept outside supabase/functions so it is never deployed. Run it on its own with a key of your choosing:
+//   MOCK_BRIDGE_API_KEY=<key> deno run --allow-net --allow-env tools/mt-bridge-mock/index.ts
+// and point the engine at it with MT_BRIDGE_URL=http://localhost:8787 and MT_BRIDGE_API_KEY=<key>.
+// bridge_contract_test.ts runs the provider against it in-process through createMockBridge.
+//
+// Contract (every request carries X-MT-Bridge-API-Key; account requests also X-MT-Platform,
+// X-MT-Server, X-MT-Login and X-MT-Session from POST /session/open):
+//   POST /session/open   { platform, server, login, password } -> { sessionToken, expiresAt }
+//   POST /order/execute  { symbol, type, lots, price, stopLossPrice, takeProfitPrice, magicNumber, comment,
+//                          orderType?, stopLimitPrice?, expiresAt? } -> { success, ticket, price, pending }
+//                        LIMIT, STOP and STOP_LIMIT orders rest at `price` and fill under the same ticket
+//   POST /order/close    { ticket, lots? } -> { success, closePrice, profit }; fewer lots than held is a partial close
+//   POST /order/modify   { ticket, stopLossPrice?, takeProfitPrice?, entryPrice?, stopLimitPrice?, expiresAt? }
+//                        -> { success, stopLossPrice, takeProfitPrice }; the entry fields apply to pending orders
+//   POST /order/cancel   { ticket } -> { success } for a pending order
+//   GET  /orders/pending -> { orders: [{ ticket, symbol, type, orderType, lots, entryPrice, stopLimitPrice, stopLoss, takeProfit, placedAt, expiresAt, triggered, comment, magicNumber }] }
+//   GET  /account/summary -> { balance, equity, margin, freeMargin, currency }
+//   GET  /positions/open  -> { positions: [{ ticket, symbol, type, lots, openPrice, openTime, stopLoss, takeProfit, currentPrice, profit, swap, comment, magicNumber }] }
+//   GET  /history/deal?ticket -> { closePrice, closeTime, profit, commission, swap, reason } for a fully closed ticket; 404 otherwise
+//   GET  /server/time     -> { serverTime }
+//   GET  /market/quote?symbol -> { bid, ask, time }
+//   GET  /market/bars?symbol&timeframe&count -> { bars: [{ time, open, high, low, close, volume }] }
+// Failures answer with a non-2xx status and { error }. A 401 means the session is unknown or expired.
+//
+// Test controls (same API key; /mock/state never includes account passwords):
+//   POST /mock/quote   { bid, ask? }  sets the price; pending orders it reaches fill, then open positions
+//                      hit by it close at their SL/TP
+//   POST /mock/respond { path, status, body?, times? }  answers the next `times` (default 1) requests
+//                      to `path` with that status and body, e.g. 500s to exercise retries, or 202/204
+//   POST /mock/expire-sessions  drops every session, so the next account request gets a 401
+//   POST /mock/reset   back to the starting state
+//   GET  /mock/state   accounts, positions, closed deals and request log
+
+const PORT = Number(Deno.env.get('MOCK_BRIDGE_PORT') || 8787);
+const START_PRICE = Number(Deno.env.get('MOCK_BRIDGE_START_PRICE') || 2000);
+const SPREAD = Number(Deno.env.get('MOCK_BRIDGE_SPREAD') || 0.3);
+const START_BALANCE = Number(Deno.env.get('MOCK_BRIDGE_START_BALANCE') || 10000);
+const SESSION_TTL_MS = Number(Deno.env.get('MOCK_BRIDGE_SESSION_TTL_SECONDS') || 1800) * 1000;
+const VALUE_PER_FULL_POINT_PER_LOT = 100; // XAUUSD: 100 oz per lot, as in the engine
+const LEVERAGE = 100;
+const MAX_LOGGED_REQUESTS = 500;
+const TERMINAL_ACCOUNT = 'terminal'; // Requests without session headers trade the bridge's own account
+
+const TIMEFRAME_MINUTES: Record<string, number> = { M1: 1, M5: 5, M15: 15, M30: 30, H1: 60, H4: 240, D1: 1440 };
+
+interface MockPosition {
+  ticket: number;
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  lots: number;
+  openPrice: number;
+  openTime: string;
+  stopLoss?: number;
+  takeProfit?: number;
+  magicNumber: number;
+  comment: string;
+}
+
+interface MockDeal {
+  ticket: number;
+  type: 'BUY' | 'SELL';
+  lots: number;
+  openPrice: number;
+  closePrice: number;
+  profit: number;
+  closeTime: string;
+  reason: 'CLIENT' | 'SL' | 'TP';
+}
+
+interface MockOrder {
+  ticket: number;
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  orderType: 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+  lots: number;
+  entryPrice: number;
+  stopLimitPrice?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  placedAt: string;
+  expiresAt?: string;
+  triggered: boolean; // STOP_LIMIT whose stop price has traded
+  magicNumber: number;
+  comment: string;
+}
+
+interface MockAccount {
+  password: string | null; // Set by the first login; later logins must match
+  balance: number;
+  positions: MockPosition[];
+  orders: MockOrder[];
+  deals: MockDeal[];
+}
+
+interface CannedResponse {
+  status: number;
+  body?: unknown;
+  times: number;
+}
+
+interface MockState {
+  bid: number;
+  ask: number;
+  nextTicket: number;
+  accounts: Map<string, MockAccount>;
+  sessions: Map<string, { account: string; expiresAt: number }>;
+  canned: Map<string, CannedResponse>;
+  requests: Array<{ method: string; path: string; account: string; status: number }>;
+}
+
+function initialState(): MockState {
+  return {
+    bid: START_PRICE,
+    ask: START_PRICE + SPREAD,
+    nextTicket: 100001,
+    accounts: new Map([[TERMINAL_ACCOUNT, newAccount(null)]]),
+    sessions: new Map(),
+    canned: new Map(),
+    requests: [],
+  };
+}
+
+function newAccount(password: string | null): MockAccount {
+  return { password, balance: START_BALANCE, positions: [], orders: [], deals: [] };
+}
+
+let state = initialState();
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function round(value: number, decimals = 2): number {
+  return parseFloat(value.toFixed(decimals));
+}
+
+function accountKey(platform: string, server: string, login: string): string {
+  return `${platform}:${server}:${login}`;
+}
+
+function closePriceFor(position: MockPosition): number {
+  return position.type === 'BUY' ? state.bid : state.ask;
+}
+
+function floatingProfit(position: MockPosition, price = closePriceFor(position)): number {
+  const diff = position.type === 'BUY' ? price - position.openPrice : position.openPrice - price;
+  return round(diff * position.lots * VALUE_PER_FULL_POINT_PER_LOT);
+}
+
+// Closes `lots` of a position at `price`; the rest stays open under the same ticket.
+function closePosition(account: MockAccount, position: MockPosition, lots: number, price: number, reason: MockDeal['reason']): MockDeal {
+  const profit = floatingProfit({ ...position, lots }, price);
+  const deal: MockDeal = { ticket: position.ticket, type: position.type, lots, openPrice: position.openPrice, closePrice: price, profit, closeTime: new Date().toISOString(), reason };
+  account.balance = round(account.balance + profit);
+  account.deals.push(deal);
+  position.lots = round(position.lots - lots, 3);
+  if (position.lots <= 0) account.positions = account.positions.filter(p => p !== position);
+  return deal;
+}
+
+// After a price change: positions whose SL or TP the new price reaches close at that level, as the
+// terminal's server-side orders would.
+function triggerStops() {
+  for (const account of state.accounts.values()) {
+    for (const position of [...account.positions]) {
+      const price = closePriceFor(position);
+      const slHit = position.stopLoss !== undefined && (position.type === 'BUY' ? price <= position.stopLoss : price >= position.stopLoss);
+      const tpHit = position.takeProfit !== undefined && (position.type === 'BUY' ? price >= position.takeProfit : price <= position.takeProfit);
+      if (slHit) closePosition(account, position, position.lots, position.stopLoss as number, 'SL');
+      else if (tpHit) closePosition(account, position, position.lots, position.takeProfit as number, 'TP');
+    }
+  }
+}
+
+// At the current quote: expired pending orders are dropped and the rest fill when the price reaches
+// them (buys at the ask, sells at the bid), as the terminal would.
+function sweepPendingOrders() {
+  const now = Date.now();
+  for (const account of state.accounts.values()) {
+    for (const order of [...account.orders]) {
+      if (order.expiresAt && new Date(order.expiresAt).getTime() <= now) {
+        account.orders = account.orders.filter(o => o !== order);
+        continue;
+      }
+      const price = order.type === 'BUY' ? state.ask : state.bid;
+      const reached = (level: number, belowMarket: boolean) => belowMarket ? price <= level : price >= level;
+      const isBuy = order.type === 'BUY';
+      let fills = false;
+      if (order.orderType === 'LIMIT') fills = reached(order.entryPrice, isBuy);
+      else if (order.orderType === 'STOP') fills = reached(order.entryPrice, !isBuy);
+      else {
+        if (!order.triggered && reached(order.entryPrice, !isBuy)) order.triggered = true;
+        fills = order.triggered && reached(order.stopLimitPrice as number, isBuy);
+      }
+      if (!fills) continue;
+      account.orders = account.orders.filter(o => o !== order);
+      account.positions.push({
+        ticket: order.ticket,
+        symbol: order.symbol,
+        type: order.type,
+        lots: order.lots,
+        openPrice: price,
+        openTime: new Date().toISOString(),
+        stopLoss: order.stopLoss,
+        takeProfit: order.takeProfit,
+        magicNumber: order.magicNumber,
+        comment: order.comment,
+      });
+    }
+  }
+}
+
+// Resolves the account a request is for: the terminal's without session headers, otherwise the
+// logged-in account, or a 401 when the session is missing, expired or belongs to another login.
+function resolveAccount(req: Request): { key: string; account: MockAccount } | Response {
+  const login = req.headers.get('X-MT-Login');
+  if (!login) return { key: TERMINAL_ACCOUNT, account: state.accounts.get(TERMINAL_ACCOUNT) as MockAccount };
+  const key = accountKey(req.headers.get('X-MT-Platform') || '', req.headers.get('X-MT-Server') || '', login);
+  const session = state.sessions.get(req.headers.get('X-MT-Session') || '');
+  if (!session || session.account !== key || session.expiresAt <= Date.now()) {
+    return json({ error: 'Session expired or unknown; open a new one.' }, 401);
+  }
+  return { key, account: state.accounts.get(key) as MockAccount };
+}
+
+function openSession(body: any): Response {
+  const { platform, server, login, password } = body ?? {};
+  if (!['MT4', 'MT5'].includes(platform) || !server || !login || !password) {
+    return json({ error: 'platform (MT4 or MT5), server, login and password are required.' }, 400);
+  }
+  const key = accountKey(platform, server, String(login));
+  const existing = state.accounts.get(key);
+  if (existing && existing.password !== password) return json({ error: 'Invalid account or password.' }, 401);
+  if (!existing) state.accounts.set(key, newAccount(password));
+  const token = crypto.randomUUID();
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  state.sessions.set(token, { account: key, expiresAt });
+  return json({ sessionToken: token, expiresAt: new Date(expiresAt).toISOString() });
+}
+
+function executeOrder(account: MockAccount, body: any): Response {
+  const { symbol, type, lots, stopLossPrice, takeProfitPrice, magicNumber, comment } = body ?? {};
+  if (!symbol || !['BUY', 'SELL'].includes(type) || !(Number(lots) > 0)) {
+    return json({ success: false, error: 'symbol, type (BUY or SELL) and positive lots are required.' }, 400);
+  }
+  const orderType = body.orderType || 'MARKET';
+  if (orderType !== 'MARKET') return placePendingOrder(account, body);
+  const price = type === 'BUY' ? state.ask : state.bid;
+  if (stopLossPrice !== undefined && (type === 'BUY' ? stopLossPrice >= price : stopLossPrice <= price)) {
+    return json({ success: false, error: 'Invalid stops: stop loss is on the wrong side of the price.' }, 400);
+  }
+  const position: MockPosition = {
+    ticket: state.nextTicket++,
+    symbol,
+    type,
+    lots: Number(lots),
+    openPrice: price,
+    openTime: new Date().toISOString(),
+    stopLoss: stopLossPrice ?? undefined,
+    takeProfit: takeProfitPrice ?? undefined,
+    magicNumber: Number(magicNumber) || 0,
+    comment: comment || '',
+  };
+  account.positions.push(position);
+  return json({ success: true, ticket: position.ticket, price, pending: false });
+}
+
+function placePendingOrder(account: MockAccount, body: any): Response {
+  const { symbol, type, lots, price, orderType, stopLimitPrice, stopLossPrice, takeProfitPrice, expiresAt, magicNumber, comment } = body;
+  if (!['LIMIT', 'STOP', 'STOP_LIMIT'].includes(orderType)) return json({ success: false, error: `Unsupported orderType ${orderType}.` }, 400);
+  const entryPrice = Number(price);
+  if (!(entryPrice > 0) || (orderType === 'STOP_LIMIT' && !(Number(stopLimitPrice) > 0))) {
+    return json({ success: false, error: 'Invalid price: pending orders need a positive price (and stopLimitPrice for STOP_LIMIT).' }, 400);
+  }
+  const market = type === 'BUY' ? state.ask : state.bid;
+  const belowMarket = orderType === 'LIMIT' ? type === 'BUY' : type === 'SELL';
+  if (belowMarket ? entryPrice >= market : entryPrice <= market) {
+    return json({ success: false, error: `Invalid price: a ${type} ${orderType} must be ${belowMarket ? 'below' : 'above'} ${market}.` }, 400);
+  }
+  const order: MockOrder = {
+    ticket: state.nextTicket++,
+    symbol,
+    type,
+    orderType,
+    lots: Number(lots),
+    entryPrice,
+    stopLimitPrice: orderType === 'STOP_LIMIT' ? Number(stopLimitPrice) : undefined,
+    stopLoss: stopLossPrice ?? undefined,
+    takeProfit: takeProfitPrice ?? undefined,
+    placedAt: new Date().toISOString(),
+    expiresAt: expiresAt ?? undefined,
+    triggered: false,
+    magicNumber: Number(magicNumber) || 0,
+    comment: comment || '',
+  };
+  account.orders.push(order);
+  return json({ success: true, ticket: order.ticket, price: entryPrice, pending: true });
+}
+
+function cancelOrder(account: MockAccount, body: any): Response {
+  const order = account.orders.find(o => o.ticket === Number(body?.ticket));
+  if (!order) return json({ success: false, error: `Pending order ${body?.ticket} not found.` }, 404);
+  account.orders = account.orders.filter(o => o !== order);
+  return json({ success: true });
+}
+
+function closeOrder(account: MockAccount, body: any): Response {
+  const position = account.positions.find(p => p.ticket === Number(body?.ticket));
+  if (!position) return json({ success: false, error: `Position ${body?.ticket} not found.` }, 404);
+  const lots = body.lots === undefined || body.lots === null ? position.lots : Number(body.lots);
+  if (!(lots > 0) || lots > position.lots) {
+    return json({ success: false, error: `Invalid volume ${body.lots}: position holds ${position.lots} lots.` }, 400);
+  }
+  const deal = closePosition(account, position, lots, closePriceFor(position), 'CLIENT');
+  return json({ success: true, closePrice: deal.closePrice, profit: deal.profit });
+}
+
+function modifyOrder(account: MockAccount, body: any): Response {
+  const order = account.orders.find(o => o.ticket === Number(body?.ticket));
+  if (order) {
+    if (body.entryPrice !== undefined) order.entryPrice = Number(body.entryPrice);
+    if (body.stopLimitPrice !== undefined) order.stopLimitPrice = Number(body.stopLimitPrice);
+    if (body.expiresAt !== undefined) order.expiresAt = body.expiresAt ?? undefined;
+    if (body.stopLossPrice !== undefined) order.stopLoss = body.stopLossPrice;
+    if (body.takeProfitPrice !== undefined) order.takeProfit = body.takeProfitPrice;
+    return json({ success: true, stopLossPrice: order.stopLoss, takeProfitPrice: order.takeProfit });
+  }
+  const position = account.positions.find(p => p.ticket === Number(body?.ticket));
+  if (!position) return json({ success: false, error: `Position ${body?.ticket} not found.` }, 404);
+  if (body.stopLossPrice !== undefined) position.stopLoss = body.stopLossPrice;
+  if (body.takeProfitPrice !== undefined) position.takeProfit = body.takeProfitPrice;
+  return json({ success: true, stopLossPrice: position.stopLoss, takeProfitPrice: position.takeProfit });
+}
+
+function accountSummary(account: MockAccount): Response {
+  const floating = account.positions.reduce((sum, p) => sum + floatingProfit(p), 0);
+  const margin = account.positions.reduce((sum, p) => sum + p.lots * VALUE_PER_FULL_POINT_PER_LOT * p.openPrice / LEVERAGE, 0);
+  const equity = round(account.balance + floating);
+  return json({ balance: account.balance, equity, margin: round(margin), freeMargin: round(equity - margin), currency: 'USD' });
+}
+
+function openPositions(account: MockAccount): Response {
+  return json({
+    positions: account.positions.map(p => ({
+      ticket: p.ticket,
+      symbol: p.symbol,
+      type: p.type,
+      lots: p.lots,
+      openPrice: p.openPrice,
+      openTime: p.openTime,
+      stopLoss: p.stopLoss,
+      takeProfit: p.takeProfit,
+      currentPrice: closePriceFor(p),
+      profit: floatingProfit(p),
+      swap: 0,
+      comment: p.comment,
+      magicNumber: p.magicNumber,
+    })),
+  });
+}
+
+// The close of a ticket that is no longer open; partial closes before it are summed into its profit
+function closedDeal(account: MockAccount, url: URL): Response {
+  const ticket = Number(url.searchParams.get('ticket'));
+  const deals = account.deals.filter(d => d.ticket === ticket);
+  if (deals.length === 0 || account.positions.some(p => p.ticket === ticket)) {
+    return json({ error: `No closed deal for ticket ${url.searchParams.get('ticket')}.` }, 404);
+  }
+  const last = deals[deals.length - 1];
+  return json({
+    closePrice: last.closePrice,
+    closeTime: last.closeTime,
+    profit: round(deals.reduce((sum, d) => sum + d.profit, 0)),
+    commission: 0,
+    swap: 0,
+    reason: last.reason,
+  });
+}
+
+// Flat bars at the current bid, ending with the bar that is forming now
+function marketBars(url: URL): Response {
+  const minutes = TIMEFRAME_MINUTES[url.searchParams.get('timeframe') || ''];
+  const count = Math.min(Number(url.searchParams.get('count')) || 100, 5000);
+  if (!minutes) return json({ error: `Unsupported timeframe ${url.searchParams.get('timeframe')}.` }, 400);
+  const stepMs = minutes * 60000;
+  const current = Math.floor(Date.now() / stepMs) * stepMs;
+  const bars = Array.from({ length: count }, (_, i) => ({
+    time: new Date(current - (count - 1 - i) * stepMs).toISOString(),
+    open: state.bid,
+    high: state.bid,
+    low: state.bid,
+    close: state.bid,
+    volume: 0,
+  }));
+  return json({ bars });
+}
+
+async function handleMockControl(path: string, req: Request): Promise<Response> {
+  const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+  switch (path) {
+    case '/mock/quote': {
+      const bid = Number(body.bid);
+      if (!Number.isFinite(bid)) return json({ error: 'bid is required.' }, 400);
+      state.bid = bid;
+      state.ask = Number.isFinite(Number(body.ask)) ? Number(body.ask) : bid + SPREAD;
+      sweepPendingOrders();
+      triggerStops();
+      return json({ bid: state.bid, ask: state.ask });
+    }
+    case '/mock/respond':
+      if (!body.path || !Number.isInteger(body.status)) return json({ error: 'path and status are required.' }, 400);
+      state.canned.set(body.path, { status: body.status, body: body.body, times: body.times ?? 1 });
+      return json({ queued: body.path });
+    case '/mock/expire-sessions':
+      state.sessions.clear();
+      return json({ expired: true });
+    case '/mock/reset':
+      state = initialState();
+      return json({ reset: true });
+    case '/mock/state':
+      // Passwords stay out: only balances and the books are reported
+      return json({
+        bid: state.bid,
+        ask: state.ask,
+        accounts: Object.fromEntries([...state.accounts].map(([key, { balance, positions, orders, deals }]) => [key, { balance, positions, orders, deals }])),
+        requests: state.requests,
+      });
+    default:
+      return json({ error: `Unknown control ${path}.` }, 404);
+  }
+}
+
+// A queued canned response for `path`, if any; 202/204 carry no body, as a real bridge's would
+function takeCannedResponse(path: string): Response | null {
+  const canned = state.canned.get(path);
+  if (!canned) return null;
+  if (--canned.times <= 0) state.canned.delete(path);
+  if (canned.status === 202 || canned.status === 204) return new Response(null, { status: canned.status });
+  return new Response(typeof canned.body === 'string' ? canned.body : JSON.stringify(canned.body ?? {}), {
+    status: canned.status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function route(path: string, req: Request, url: URL): Promise<Response> {
+  if (path === '/session/open' && req.method === 'POST') return openSession(await req.json().catch(() => null));
+  if (path === '/server/time' && req.method === 'GET') return json({ serverTime: new Date().toISOString() });
+  if (path === '/market/quote' && req.method === 'GET') return json({ bid: state.bid, ask: state.ask, time: new Date().toISOString() });
+  if (path === '/market/bars' && req.method === 'GET') return marketBars(url);
+
+  const resolved = resolveAccount(req);
+  if (resolved instanceof Response) return resolved;
+  const { account } = resolved;
+  sweepPendingOrders(); // Expiry runs on the clock, not only on quote changes
+  if (path === '/account/summary' && req.method === 'GET') return accountSummary(account);
+  if (path === '/positions/open' && req.method === 'GET') return openPositions(account);
+  if (path === '/history/deal' && req.method === 'GET') return closedDeal(account, url);
+  if (path === '/orders/pending' && req.method === 'GET') return json({ orders: account.orders });
+  if (req.method === 'POST') {
+    const body = await req.json().catch(() => null);
+    if (path === '/order/execute') return executeOrder(account, body);
+    if (path === '/order/close') return closeOrder(account, body);
+    if (path === '/order/modify') return modifyOrder(account, body);
+    if (path === '/order/cancel') return cancelOrder(account, body);
+  }
+  return json({ error: `No such endpoint: ${req.method} ${path}` }, 404);
+}
+
+// The mock's request handler, accepting only requests that carry `apiKey`, the test controls included.
+// State is shared by every handler in the process; POST /mock/reset starts it over.
+export function createMockBridge(apiKey: string): (req: Request) => Promise<Response> {
+  if (!apiKey) throw new Error('createMockBridge: an API key is required.');
+  return async (req: Request) => {
+    const url = new URL(req.url);
+    const path = url.pathname || '/';
+    if (req.headers.get('X-MT-Bridge-API-Key') !== apiKey) return json({ error: 'Invalid bridge API key.' }, 403);
+    if (path.startsWith('/mock/')) return await handleMockControl(path, req);
+
+    const response = takeCannedResponse(path) ?? await route(path, req, url);
+    state.requests.push({ method: req.method, path, account: req.headers.get('X-MT-Login') || TERMINAL_ACCOUNT, status: response.status });
+    if (state.requests.length > MAX_LOGGED_REQUESTS) state.requests.shift();
+    return response;
+  };
+}
+
+if (import.meta.main) {
+  const apiKey = Deno.env.get('MOCK_BRIDGE_API_KEY');
+  if (!apiKey) {
+    console.error('MOCK_BRIDGE_API_KEY is not set; the mock bridge will not start without one.');
+    Deno.exit(1);
+  }
+  serve(createMockBridge(apiKey), { port: PORT });
+}